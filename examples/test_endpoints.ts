@@ -6,7 +6,7 @@ import { z } from "../src/zod.ts";
 export const registry = new OpenapiRegistry();
 export const DateTime = registry.register(
   "DateTime",
-  zsDate(z.date().openapi({ type: "string", format: "date-time" })),
+  zsDate(z.date()),
 );
 export const UserSchema = registry.register(
   "User",
@@ -106,7 +106,7 @@ const updateUserByIdEndpoint = defineOpenapiJsonEndpoint({
     },
     query: {
       dryRun: zsBoolean(z.boolean()),
-      dates: z.array(zsDate(z.date().openapi({ type: "string", format: "date-time" }))).optional(),
+      dates: z.array(zsDate(z.date())).optional(),
     },
     headers: {
       "x-some-uuid": z.string().uuid().min(1),
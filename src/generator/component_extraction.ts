@@ -0,0 +1,295 @@
+import { OpenapiObject, ReferenceObject, SchemaObject } from "../types/spec/openapi.ts";
+import { ConflictError } from "./errors.ts";
+
+export interface OpenapiComponentNameContext {
+  /**
+   * The schema being extracted, which may reference other extracted schemas
+   */
+  schema: SchemaObject;
+  /**
+   * The name derived from where the schema is first used, e.g. `Address` for an `address` property
+   */
+  derivedName: string;
+  /**
+   * Where the schema is first used in the document, as JSON pointer segments
+   */
+  path: string[];
+}
+
+export interface OpenapiComponentExtractionOptions {
+  /**
+   * How many times an inline schema has to be used to be extracted, defaults to 2
+   */
+  minOccurrences?: number;
+  /**
+   * Names the extracted schemas, defaults to their derived names suffixed by a counter in case of conflict
+   */
+  name?: (context: OpenapiComponentNameContext) => string;
+}
+
+interface Occurrence {
+  schema: SchemaObject;
+  path: string[];
+  count: number;
+}
+
+type SchemaVisitor = (schema: SchemaObject, path: string[]) => SchemaObject | ReferenceObject | undefined;
+
+const SUBSCHEMA_MAP_KEYWORDS = ["properties", "patternProperties"];
+const SUBSCHEMA_LIST_KEYWORDS = ["allOf", "anyOf", "oneOf", "prefixItems"];
+const SUBSCHEMA_KEYWORDS = ["items", "additionalProperties", "not"];
+const NON_SCHEMA_KEYWORDS = new Set(["example", "examples", "default", "enum", "const"]);
+
+function isReference(schema: SchemaObject | ReferenceObject): schema is ReferenceObject {
+  return typeof (schema as ReferenceObject).$ref === "string";
+}
+
+function isSchemaLike(value: unknown): value is SchemaObject | ReferenceObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Only objects with properties are worth a name
+ */
+function isCandidate(schema: SchemaObject): boolean {
+  return schema.properties !== undefined && Object.keys(schema.properties).length > 0;
+}
+
+/**
+ * A JSON serialization independent of the order of the keys, identifying structurally identical schemas
+ */
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(",")}]`;
+  }
+
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([_, item]) => item !== undefined)
+      .sort(([left], [right]) => left < right ? -1 : left > right ? 1 : 0)
+      // The order of the required properties does not matter either
+      .map(([key, item]) => [key, key === "required" && Array.isArray(item) ? [...item].sort() : item]);
+
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalize(item)}`).join(",")}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Rebuilds a schema bottom-up, letting the visitor replace any of its inline subschemas
+ */
+function mapSchema(schema: SchemaObject | ReferenceObject, path: string[], visit: SchemaVisitor) {
+  if (isReference(schema)) {
+    return schema;
+  }
+
+  const result: Record<string, unknown> = { ...schema };
+
+  for (const keyword of SUBSCHEMA_MAP_KEYWORDS) {
+    const subschemas = result[keyword];
+
+    if (isSchemaLike(subschemas)) {
+      result[keyword] = Object.fromEntries(
+        Object.entries(subschemas).map((
+          [key, subschema],
+        ) => [key, mapSchema(subschema, [...path, keyword, key], visit)]),
+      );
+    }
+  }
+
+  for (const keyword of SUBSCHEMA_LIST_KEYWORDS) {
+    const subschemas = result[keyword];
+
+    if (Array.isArray(subschemas)) {
+      result[keyword] = subschemas.map((subschema, index) =>
+        mapSchema(subschema, [...path, keyword, `${index}`], visit)
+      );
+    }
+  }
+
+  for (const keyword of SUBSCHEMA_KEYWORDS) {
+    const subschema = result[keyword];
+
+    if (isSchemaLike(subschema)) {
+      result[keyword] = mapSchema(subschema, [...path, keyword], visit);
+    }
+  }
+
+  return visit(result as SchemaObject, path) ?? result as SchemaObject;
+}
+
+/**
+ * Applies the visitor to every schema of the paths, webhooks and schema components of the document
+ */
+function mapDocumentSchemas(document: OpenapiObject, visit: SchemaVisitor): OpenapiObject {
+  const mapNode = (node: unknown, path: string[]): unknown => {
+    if (Array.isArray(node)) {
+      return node.map((item, index) => mapNode(item, [...path, `${index}`]));
+    }
+
+    if (typeof node !== "object" || node === null) {
+      return node;
+    }
+
+    return Object.fromEntries(
+      Object.entries(node).map(([key, value]) => {
+        if (key === "schema" && isSchemaLike(value)) {
+          return [key, mapSchema(value, [...path, key], visit)];
+        }
+
+        return [key, NON_SCHEMA_KEYWORDS.has(key) ? value : mapNode(value, [...path, key])];
+      }),
+    );
+  };
+
+  // The components themselves are not replaced, only their subschemas
+  const schemas = Object.fromEntries(
+    Object.entries(document.components?.schemas ?? {}).map(([name, schema]) => {
+      const path = ["components", "schemas", name];
+      const mapped = mapSchema(
+        schema,
+        path,
+        (subschema, subpath) => subpath === path ? undefined : visit(subschema, subpath),
+      );
+      return [name, mapped];
+    }),
+  );
+
+  return {
+    ...document,
+    paths: mapNode(document.paths, ["paths"]) as OpenapiObject["paths"],
+    ...(document.webhooks ? { webhooks: mapNode(document.webhooks, ["webhooks"]) as OpenapiObject["webhooks"] } : {}),
+    components: { ...document.components, schemas },
+  };
+}
+
+function toPascalCase(value: string): string {
+  return value
+    .split(/[^A-Za-z0-9]+/)
+    .filter((word) => word.length > 0)
+    .map((word) => `${word[0].toUpperCase()}${word.slice(1)}`)
+    .join("");
+}
+
+/**
+ * Derives a name from the closest property, or from the operation using the schema
+ */
+function deriveName(document: OpenapiObject, schema: SchemaObject, path: string[]): string {
+  if (schema.title) {
+    return toPascalCase(schema.title);
+  }
+
+  const propertyIndex = path.lastIndexOf("properties");
+
+  if (propertyIndex !== -1 && propertyIndex < path.length - 1) {
+    const suffix = path.slice(propertyIndex + 2).includes("items") ? "Item" : "";
+    return `${toPascalCase(path[propertyIndex + 1])}${suffix}`;
+  }
+
+  const [section, pathOrName, method, location, status] = path;
+
+  if (section === "components") {
+    return `${pathOrName}Schema`;
+  }
+
+  const operation = section === "paths"
+    ? document.paths[pathOrName]?.[method]
+    : document.webhooks?.[pathOrName]?.[method as "get"];
+  const operationName = operation?.operationId
+    ? toPascalCase(operation.operationId)
+    : toPascalCase(section === "paths" ? `${method} ${pathOrName}` : pathOrName);
+
+  if (location === "requestBody") {
+    return `${operationName}RequestBody`;
+  }
+
+  if (location === "responses") {
+    return `${operationName}Response${toPascalCase(status)}`;
+  }
+
+  return `${operationName}Schema`;
+}
+
+/**
+ * Hoists the inline object schemas used at least `minOccurrences` times into `components/schemas`,
+ * and references the schema components from their structurally identical inline copies
+ */
+export function extractComponents(
+  document: OpenapiObject,
+  { minOccurrences = 2, name: nameComponent }: OpenapiComponentExtractionOptions = {},
+): OpenapiObject {
+  let current = referenceComponents(document);
+
+  // Extracting a schema changes how often its own subschemas are used, so the occurrences are counted again
+  // after each extraction, extracting the biggest schemas first
+  while (true) {
+    const componentNames = new Set(Object.keys(current.components?.schemas ?? {}));
+    const occurrences = new Map<string, Occurrence>();
+
+    mapDocumentSchemas(current, (schema, path) => {
+      if (isCandidate(schema)) {
+        const key = canonicalize(schema);
+        const occurrence = occurrences.get(key);
+
+        if (occurrence) {
+          occurrence.count++;
+        } else {
+          occurrences.set(key, { schema, path, count: 1 });
+        }
+      }
+
+      return undefined;
+    });
+
+    const extracted = Array.from(occurrences.entries())
+      .filter(([_, { count }]) => count >= minOccurrences)
+      .reduce<[string, Occurrence] | undefined>(
+        (biggest, candidate) => !biggest || candidate[0].length > biggest[0].length ? candidate : biggest,
+        undefined,
+      )?.[1];
+
+    if (!extracted) {
+      return current;
+    }
+
+    const derivedName = deriveName(current, extracted.schema, extracted.path);
+    let name = nameComponent?.({ schema: extracted.schema, derivedName, path: extracted.path }) ?? derivedName;
+
+    if (componentNames.has(name)) {
+      if (nameComponent) {
+        throw new ConflictError(`Conflicting names for extracted schema`, { key: "name", values: [name] });
+      }
+
+      let counter = 2;
+      while (componentNames.has(`${derivedName}${counter}`)) {
+        counter++;
+      }
+      name = `${derivedName}${counter}`;
+    }
+
+    current = referenceComponents({
+      ...current,
+      components: {
+        ...current.components,
+        schemas: { ...current.components?.schemas, [name]: extracted.schema },
+      },
+    });
+  }
+}
+
+/**
+ * Replaces the inline copies of the schema components by references to them
+ */
+function referenceComponents(document: OpenapiObject): OpenapiObject {
+  const names = new Map(
+    Object.entries(document.components?.schemas ?? {})
+      .filter(([_, schema]) => !isReference(schema) && isCandidate(schema as SchemaObject))
+      .map(([name, schema]) => [canonicalize(schema), name]),
+  );
+
+  return mapDocumentSchemas(document, (schema) => {
+    const name = isCandidate(schema) ? names.get(canonicalize(schema)) : undefined;
+    return name ? { $ref: `#/components/schemas/${name}` } : undefined;
+  });
+}
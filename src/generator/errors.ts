@@ -26,6 +26,20 @@ export class MissingParameterDataError extends ZodToOpenapiError {
   }
 }
 
+interface UnregisteredRecursiveSchemaErrorProps {
+  path: string[];
+}
+
+export class UnregisteredRecursiveSchemaError extends ZodToOpenapiError {
+  constructor(private data: UnregisteredRecursiveSchemaErrorProps) {
+    super(
+      `Recursive schema found at \`${
+        data.path.join(".")
+      }\`, please register it using \`OpenapiRegistry.register\` so that it can be referenced.`,
+    );
+  }
+}
+
 interface UnknownZodTypeErrorProps {
   schemaName?: string;
   currentSchema: any;
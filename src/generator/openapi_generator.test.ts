@@ -1,7 +1,9 @@
-import { OpenapiGenerator } from "./openapi_generator.ts";
+import { OpenapiGenerator, OpenapiGeneratorOptions } from "./openapi_generator.ts";
 import { OpenapiRegistry } from "../openapi_registry.ts";
 import { z } from "../zod.ts";
 import { zsBoolean, zsDate, zsNumber } from "../lib/zod_string_like.ts";
+import { UnregisteredRecursiveSchemaError } from "./errors.ts";
+import { SchemaObject } from "../types/spec/openapi.ts";
 import { assertEquals } from "https://deno.land/std@0.200.0/assert/assert_equals.ts";
 
 Deno.test("Generate OpenAPI docs", () => {
@@ -240,6 +242,7 @@ Deno.test("Generate OpenAPI docs", () => {
               schema: {
                 type: "integer",
                 minimum: 0,
+                exclusiveMinimum: true,
               },
               required: true,
               description: "The user ID, must be a positive integer",
@@ -258,6 +261,7 @@ Deno.test("Generate OpenAPI docs", () => {
               schema: {
                 type: "string",
                 format: "uuid",
+                minLength: 1,
               },
               required: true,
               description: "Some UUID",
@@ -295,6 +299,7 @@ Deno.test("Generate OpenAPI docs", () => {
                   schema: {
                     type: "integer",
                     minimum: 0,
+                    exclusiveMinimum: true,
                   },
                   description: "Request limit per hour.",
                 },
@@ -302,6 +307,7 @@ Deno.test("Generate OpenAPI docs", () => {
                   schema: {
                     type: "integer",
                     minimum: 0,
+                    exclusiveMinimum: true,
                   },
                   description: "The number of requests left for the time window.",
                 },
@@ -350,3 +356,535 @@ Deno.test("Generate OpenAPI docs", () => {
     },
   });
 });
+
+Deno.test("Generate OpenAPI 3.1 docs", () => {
+  const registry = new OpenapiRegistry();
+
+  const PetSchema = registry.register(
+    "Pet",
+    z.object({
+      kind: z.literal("cat"),
+      name: z.string().nullable().openapi({ example: "Tom" }),
+      position: z.tuple([z.number(), z.number()]),
+    }).openapi({ description: "A pet" }),
+  );
+
+  registry.registerPath({
+    method: "get",
+    path: "/pets/{name}",
+    request: {
+      params: {
+        name: z.string(),
+      },
+    },
+    responses: {
+      200: {
+        description: "The pet, if any",
+        content: {
+          "application/json": {
+            schema: PetSchema.nullable(),
+          },
+        },
+      },
+    },
+  });
+
+  registry.registerWebhook("newPet", {
+    method: "post",
+    request: {
+      body: {
+        content: {
+          "application/json": {
+            schema: PetSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: "Acknowledged",
+        content: {
+          "text/plain": {
+            schema: z.string(),
+          },
+        },
+      },
+    },
+  });
+
+  const document = new OpenapiGenerator(registry.definitions, { openapiVersion: "3.1" }).generateDocument({
+    openapi: "3.1.0",
+    info: { title: "Pets", version: "1.0.0" },
+  });
+
+  assertEquals(document.jsonSchemaDialect, "https://spec.openapis.org/oas/3.1/dialect/base");
+  assertEquals(document.components?.schemas?.Pet, {
+    type: "object",
+    description: "A pet",
+    properties: {
+      kind: { type: "string", const: "cat" },
+      name: { type: ["string", "null"], examples: ["Tom"] },
+      position: {
+        type: "array",
+        prefixItems: [{ type: "number" }, { type: "number" }],
+        minItems: 2,
+        maxItems: 2,
+      },
+    },
+    required: ["kind", "name", "position"],
+  });
+  assertEquals(document.paths["/pets/{name}"].get.responses[200].content["application/json"].schema, {
+    anyOf: [{ $ref: "#/components/schemas/Pet", description: "A pet" }, { type: "null" }],
+  });
+  assertEquals(
+    document.webhooks?.newPet.post?.requestBody,
+    {
+      content: {
+        "application/json": {
+          schema: { $ref: "#/components/schemas/Pet", description: "A pet" },
+        },
+      },
+    },
+  );
+
+  assertEquals((document.components?.schemas?.Pet as SchemaObject).$schema, undefined);
+
+  const dialect = "https://json-schema.org/draft/2020-12/schema";
+  const dialectDocument = new OpenapiGenerator(registry.definitions, { openapiVersion: "3.1" }).generateDocument({
+    openapi: "3.1.0",
+    info: { title: "Pets", version: "1.0.0" },
+    jsonSchemaDialect: dialect,
+  });
+
+  assertEquals(dialectDocument.jsonSchemaDialect, dialect);
+  assertEquals((dialectDocument.components?.schemas?.Pet as SchemaObject).$schema, dialect);
+
+  const openapi30Document = new OpenapiGenerator(registry.definitions).generateDocument({
+    openapi: "3.0.0",
+    info: { title: "Pets", version: "1.0.0" },
+  });
+
+  assertEquals(openapi30Document.webhooks, undefined);
+  assertEquals((openapi30Document.components?.schemas?.Pet as SchemaObject).properties?.name, {
+    type: "string",
+    nullable: true,
+    example: "Tom",
+  });
+  assertEquals((openapi30Document.components?.schemas?.Pet as SchemaObject).$schema, undefined);
+});
+
+Deno.test("Generate schemas for every Zod type", () => {
+  const registry = new OpenapiRegistry();
+
+  const schema = z.object({
+    date: z.date(),
+    bigint: z.bigint(),
+    nan: z.nan(),
+    set: z.set(z.string()).min(1).max(3),
+    record: z.map(z.string(), z.number()),
+    entries: z.map(z.number(), z.boolean()),
+    any: z.any(),
+    never: z.never().optional(),
+    branded: z.string().brand<"Id">(),
+    caught: z.number().catch(0),
+    piped: z.string().transform(Number).pipe(z.number().int()),
+    frozen: z.array(z.string()).readonly(),
+    transformed: z.string().transform((value) => value.length),
+  });
+
+  registry.register("Everything", schema);
+
+  const generate = (options?: ConstructorParameters<typeof OpenapiGenerator>[1]) =>
+    new OpenapiGenerator(registry.definitions, options).generateDocument({
+      openapi: "3.0.0",
+      info: { title: "Everything", version: "1.0.0" },
+    }).components?.schemas;
+
+  const generated = generate()?.EverythingInput as SchemaObject;
+
+  assertEquals(generated.properties, {
+    date: { type: "string", format: "date-time" },
+    // Bigints are sent as JSON strings by the default codec, since JSON numbers lose the precision of int64 values
+    bigint: { type: "string", format: "int64" },
+    nan: { type: "number" },
+    set: { type: "array", items: { type: "string" }, uniqueItems: true, minItems: 1, maxItems: 3 },
+    record: { type: "object", additionalProperties: { type: "number" } },
+    entries: {
+      type: "array",
+      items: { type: "array", items: { anyOf: [{ type: "number" }, { type: "boolean" }] }, minItems: 2, maxItems: 2 },
+    },
+    any: {},
+    never: { not: {} },
+    branded: { type: "string" },
+    caught: { type: "number" },
+    piped: { type: "string" },
+    frozen: { type: "array", items: { type: "string" } },
+    transformed: { type: "string" },
+  });
+
+  // The outputs of the pipelines and transforms differ from their inputs
+  const output = generate()?.EverythingOutput as SchemaObject;
+  assertEquals([output.properties?.piped, output.properties?.transformed], [{ type: "integer" }, {}]);
+
+  // The side of the pipelines may still be forced for both directions
+  const outputPiped = generate({ pipelineSide: "output" })?.EverythingInput as SchemaObject;
+  assertEquals(outputPiped.properties?.piped, { type: "integer" });
+  assertEquals((generate({ openapiVersion: "3.1" })?.EverythingInput as SchemaObject).properties?.entries, {
+    type: "array",
+    items: { type: "array", prefixItems: [{ type: "number" }, { type: "boolean" }], minItems: 2, maxItems: 2 },
+  });
+});
+
+Deno.test("Generate schemas matching every Zod check", () => {
+  const registry = new OpenapiRegistry();
+
+  registry.register(
+    "Checks",
+    z.object({
+      code: z.string().length(6).startsWith("A.").endsWith("$").includes("-", { position: 2 }),
+      name: z.string().min(2).max(64).regex(/^\w+$/).default("anonymous"),
+      createdAt: z.string().datetime(),
+      address: z.string().ip({ version: "v4" }),
+      id: z.string().cuid(),
+      key: z.string().ulid(),
+      mood: z.string().emoji(),
+      ratio: z.number().gt(0).lt(1),
+      count: z.number().int().nonnegative().lte(100).multipleOf(5),
+      amount: z.number().finite(),
+      tags: z.array(z.string()).nonempty(),
+      point: z.array(z.number()).length(3),
+    }).strict(),
+  );
+
+  // The default name makes the input differ from the output
+  const generate = (options?: ConstructorParameters<typeof OpenapiGenerator>[1]) =>
+    new OpenapiGenerator(registry.definitions, options).generateDocument({
+      openapi: "3.0.0",
+      info: { title: "Checks", version: "1.0.0" },
+    }).components?.schemas?.ChecksInput as SchemaObject;
+
+  const generated = generate();
+
+  assertEquals(generated.additionalProperties, false);
+  assertEquals(generated.properties, {
+    code: {
+      type: "string",
+      minLength: 6,
+      maxLength: 6,
+      pattern: "^A\\.",
+      allOf: [{ pattern: "\\$$" }, { pattern: "^[\\s\\S]{2,}-" }],
+    },
+    name: { type: "string", minLength: 2, maxLength: 64, pattern: "^\\w+$", default: "anonymous" },
+    createdAt: { type: "string", format: "date-time" },
+    address: { type: "string", format: "ipv4" },
+    id: { type: "string", format: "cuid" },
+    key: { type: "string", format: "ulid" },
+    mood: { type: "string", format: "emoji" },
+    ratio: { type: "number", minimum: 0, exclusiveMinimum: true, maximum: 1, exclusiveMaximum: true },
+    count: { type: "integer", minimum: 0, maximum: 100, multipleOf: 5 },
+    amount: { type: "number" },
+    tags: { type: "array", items: { type: "string" }, minItems: 1 },
+    point: { type: "array", items: { type: "number" }, minItems: 3, maxItems: 3 },
+  });
+
+  assertEquals(generate({ openapiVersion: "3.1" }).properties?.ratio, {
+    type: "number",
+    exclusiveMinimum: 0,
+    exclusiveMaximum: 1,
+  });
+});
+
+Deno.test("Generate recursive schemas", () => {
+  interface Category {
+    name: string;
+    subcategories: Category[];
+  }
+
+  interface Employee {
+    name: string;
+    reports?: Employee[];
+  }
+
+  const registry = new OpenapiRegistry();
+
+  const CategorySchema: z.ZodType<Category> = registry.register(
+    "Category",
+    z.lazy(() => z.object({ name: z.string(), subcategories: z.array(CategorySchema) })),
+  );
+
+  // Registering the schema after declaring it works as well
+  const EmployeeSchema: z.ZodType<Employee> = z.lazy(() =>
+    z.object({ name: z.string(), reports: z.array(EmployeeSchema).optional() })
+  );
+  registry.register("Employee", EmployeeSchema);
+
+  const document = new OpenapiGenerator(registry.definitions).generateDocument({
+    openapi: "3.0.0",
+    info: { title: "Trees", version: "1.0.0" },
+  });
+
+  assertEquals(document.components?.schemas?.Category, {
+    type: "object",
+    properties: {
+      name: { type: "string" },
+      subcategories: { type: "array", items: { $ref: "#/components/schemas/Category" } },
+    },
+    required: ["name", "subcategories"],
+  });
+  assertEquals(document.components?.schemas?.Employee, {
+    type: "object",
+    properties: {
+      name: { type: "string" },
+      reports: { type: "array", items: { $ref: "#/components/schemas/Employee" } },
+    },
+    required: ["name"],
+  });
+
+  const unregistered = new OpenapiRegistry();
+  unregistered.register("Org", z.object({ ceo: EmployeeSchema }));
+
+  const error = (() => {
+    try {
+      new OpenapiGenerator(unregistered.definitions).generateDocument({
+        openapi: "3.0.0",
+        info: { title: "Trees", version: "1.0.0" },
+      });
+    } catch (error) {
+      return error;
+    }
+  })();
+
+  assertEquals(error instanceof UnregisteredRecursiveSchemaError, true);
+  assertEquals(
+    (error as { message: string }).message,
+    "Recursive schema found at `Org.ceo.reports.items`, please register it using `OpenapiRegistry.register` so that it can be referenced.",
+  );
+});
+
+Deno.test("Extract the schemas used several times into components", () => {
+  const registry = new OpenapiRegistry();
+
+  const AddressSchema = z.object({ street: z.string(), city: z.string() });
+  const MoneySchema = registry.register("Money", z.object({ amount: z.number(), currency: z.string() }));
+
+  const createUserResponse = (description: string) => ({
+    200: {
+      description,
+      content: {
+        "application/json": {
+          // Structurally identical to the registered Money schema, without being it
+          schema: z.object({
+            name: z.string(),
+            address: AddressSchema,
+            balance: z.object({ currency: z.string(), amount: z.number() }),
+          }),
+        },
+      },
+    },
+  });
+
+  registry.registerPath({ method: "get", path: "/users/{id}", responses: createUserResponse("The user") });
+  registry.registerPath({
+    method: "post",
+    path: "/users",
+    operationId: "createUser",
+    request: {
+      body: { content: { "application/json": { schema: z.object({ name: z.string(), address: AddressSchema }) } } },
+    },
+    responses: createUserResponse("The created user"),
+  });
+  registry.registerPath({
+    method: "get",
+    path: "/shops",
+    responses: {
+      200: {
+        description: "The shops",
+        content: {
+          "application/json": {
+            schema: z.array(z.object({ address: AddressSchema, revenue: MoneySchema })),
+          },
+        },
+      },
+    },
+  });
+
+  const generate = (options: OpenapiGeneratorOptions["extractComponents"]) =>
+    new OpenapiGenerator(registry.definitions, { extractComponents: options }).generateDocument({
+      openapi: "3.0.0",
+      info: { title: "Users", version: "1.0.0" },
+    });
+
+  const document = generate(true);
+
+  assertEquals(document.components?.schemas, {
+    Money: {
+      type: "object",
+      properties: { amount: { type: "number" }, currency: { type: "string" } },
+      required: ["amount", "currency"],
+    },
+    GetUsersIdResponse200: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        address: { $ref: "#/components/schemas/Address" },
+        balance: { $ref: "#/components/schemas/Money" },
+      },
+      required: ["name", "address", "balance"],
+    },
+    Address: {
+      type: "object",
+      properties: { street: { type: "string" }, city: { type: "string" } },
+      required: ["street", "city"],
+    },
+  });
+  assertEquals(document.paths["/users"].post.responses[200].content["application/json"].schema, {
+    $ref: "#/components/schemas/GetUsersIdResponse200",
+  });
+  assertEquals(document.paths["/users"].post.requestBody.content["application/json"].schema, {
+    type: "object",
+    properties: { name: { type: "string" }, address: { $ref: "#/components/schemas/Address" } },
+    required: ["name", "address"],
+  });
+  assertEquals(document.paths["/shops"].get.responses[200].content["application/json"].schema, {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        address: { $ref: "#/components/schemas/Address" },
+        revenue: { $ref: "#/components/schemas/Money" },
+      },
+      required: ["address", "revenue"],
+    },
+  });
+
+  const named = generate({
+    name: ({ derivedName, path }) => path[0] === "paths" && path.at(-1) === "schema" ? "User" : derivedName,
+  });
+  assertEquals(Object.keys(named.components?.schemas ?? {}), ["Money", "User", "Address"]);
+
+  assertEquals(generate(false).components?.schemas?.Address, undefined);
+
+  const dialect = "https://json-schema.org/draft/2020-12/schema";
+  const dialectDocument = new OpenapiGenerator(registry.definitions, { openapiVersion: "3.1", extractComponents: true })
+    .generateDocument({
+      openapi: "3.1.0",
+      info: { title: "Users", version: "1.0.0" },
+      jsonSchemaDialect: dialect,
+    });
+
+  // The dialect is declared once extracted, so the inline copies still match the components
+  assertEquals(Object.keys(dialectDocument.components?.schemas ?? {}), ["Money", "GetUsersIdResponse200", "Address"]);
+  assertEquals(dialectDocument.components?.schemas?.Money, {
+    $schema: dialect,
+    ...document.components?.schemas?.Money,
+  });
+  assertEquals(dialectDocument.components?.schemas?.Address, {
+    $schema: dialect,
+    ...document.components?.schemas?.Address,
+  });
+  assertEquals(
+    dialectDocument.paths["/shops"].get.responses[200].content["application/json"].schema,
+    document.paths["/shops"].get.responses[200].content["application/json"].schema,
+  );
+});
+
+Deno.test("Generate distinct input and output schemas when they differ", () => {
+  interface Folder {
+    name: string;
+    folders: Folder[];
+  }
+
+  const registry = new OpenapiRegistry();
+
+  const AddressSchema = registry.register("Address", z.object({ street: z.string() }));
+  const UserSchema = registry.register(
+    "User",
+    z.object({
+      id: zsNumber(z.number().int()),
+      joinedAt: zsDate(z.date()),
+      tags: z.array(z.string()).default([]),
+      address: AddressSchema,
+    }),
+  );
+  const FolderSchema: z.ZodType<Folder, z.ZodTypeDef, unknown> = registry.register(
+    "Folder",
+    z.lazy(() => z.object({ name: z.string(), folders: z.array(FolderSchema).default([]) })),
+  );
+
+  registry.registerPath({
+    method: "post",
+    path: "/users",
+    request: {
+      query: { since: zsDate(z.any()).optional() },
+      body: { content: { "application/json": { schema: UserSchema } } },
+    },
+    responses: {
+      201: { description: "The user", content: { "application/json": { schema: UserSchema } } },
+      202: {
+        description: "The size of the user",
+        content: {
+          "application/json": { schema: z.string().transform(Number).openapi({ output: { type: "number" } }) },
+        },
+      },
+    },
+  });
+
+  registry.registerPath({
+    method: "put",
+    path: "/folders",
+    request: { body: { content: { "application/json": { schema: FolderSchema } } } },
+    responses: {
+      200: { description: "The folder", content: { "application/json": { schema: FolderSchema } } },
+    },
+  });
+
+  const document = new OpenapiGenerator(registry.definitions).generateDocument({
+    openapi: "3.0.0",
+    info: { title: "Users", version: "1.0.0" },
+  });
+
+  const userProperties = {
+    id: { type: "integer" },
+    joinedAt: { type: "string", format: "date-time" },
+    tags: { type: "array", items: { type: "string" }, default: [] },
+    address: { $ref: "#/components/schemas/Address" },
+  };
+
+  // A default value is optional in requests but always present in responses
+  assertEquals(document.components?.schemas, {
+    Address: { type: "object", properties: { street: { type: "string" } }, required: ["street"] },
+    UserInput: { type: "object", properties: userProperties, required: ["id", "joinedAt", "address"] },
+    UserOutput: { type: "object", properties: userProperties, required: ["id", "joinedAt", "tags", "address"] },
+    FolderInput: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        folders: { type: "array", items: { $ref: "#/components/schemas/FolderInput" }, default: [] },
+      },
+      required: ["name"],
+    },
+    FolderOutput: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        folders: { type: "array", items: { $ref: "#/components/schemas/FolderOutput" }, default: [] },
+      },
+      required: ["name", "folders"],
+    },
+  });
+
+  const createUser = document.paths["/users"].post;
+  assertEquals(createUser?.parameters, [
+    { in: "query", name: "since", schema: { type: "string", format: "date-time" }, required: false },
+  ]);
+  assertEquals(createUser?.requestBody, {
+    content: { "application/json": { schema: { $ref: "#/components/schemas/UserInput" } } },
+  });
+  assertEquals(createUser?.responses[201].content["application/json"].schema, {
+    $ref: "#/components/schemas/UserOutput",
+  });
+  assertEquals(createUser?.responses[202].content["application/json"].schema, { type: "number" });
+  assertEquals(document.paths["/folders"].put?.responses[200].content["application/json"].schema, {
+    $ref: "#/components/schemas/FolderOutput",
+  });
+});
@@ -3,6 +3,7 @@ import {
   ComponentsObject,
   ContentObject,
   ExternalDocumentationObject,
+  HeaderObject,
   HeadersObject,
   InfoObject,
   OpenapiObject,
@@ -19,73 +20,217 @@ import {
   TagObject,
 } from "../types/spec/openapi.ts";
 import type {
+  ZodLazy,
+  ZodMap,
+  ZodNumber,
   ZodObject,
   ZodOpenapiMetadata,
   ZodRawShape,
   ZodSchema,
   ZodString,
-  ZodStringDef,
+  ZodTuple,
   ZodType,
   ZodTypeAny,
 } from "../zod.ts";
-import { compact, isNil, mapValues, objectEquals, omit, omitBy } from "./utils.ts";
+import { compact, escapeRegExp, isNil, mapValues, objectEquals, omit, omitBy } from "./utils.ts";
 import {
   OpenapiComponentObject,
   OpenapiDefinitions,
   ZodContentObject,
   ZodRequestBody,
   ZodResponseConfig,
+  ZodResponseHeaderObject,
   ZodResponseHeadersObject,
   ZodRouteConfig,
+  ZodWebhookConfig,
 } from "../openapi_registry.ts";
-import { ConflictError, MissingParameterDataError, UnknownZodTypeError } from "./errors.ts";
+import {
+  ConflictError,
+  MissingParameterDataError,
+  UnknownZodTypeError,
+  UnregisteredRecursiveSchemaError,
+} from "./errors.ts";
 import { isAnyZodType, isZodType } from "../lib/zod_type_check.ts";
+import { toOpenapiPath } from "../runtime/path.ts";
+import { extractComponents, OpenapiComponentExtractionOptions } from "./component_extraction.ts";
+
+export type { OpenapiComponentExtractionOptions, OpenapiComponentNameContext } from "./component_extraction.ts";
 
 // See https://github.com/colinhacks/zod/blob/9eb7eb136f3e702e86f030e6984ef20d4d8521b6/src/types.ts#L1370
 type UnknownKeysParam = "passthrough" | "strict" | "strip";
 
+const STRING_FORMATS: Partial<Record<string, string>> = {
+  email: "email",
+  url: "uri",
+  uuid: "uuid",
+  cuid: "cuid",
+  cuid2: "cuid2",
+  ulid: "ulid",
+  emoji: "emoji",
+  datetime: "date-time",
+  date: "date",
+  time: "time",
+};
+
 // This is essentially OpenapiObject without the components and paths keys.
 // Omit does not work, since OpenapiObject extends ISpecificationExtension
 // and is inferred as { [key: number]: any; [key: string]: any }
-interface OpenapiObjectConfig {
+export interface OpenapiObjectConfig {
   openapi: string;
   info: InfoObject;
   servers?: ServerObject[];
   security?: SecurityRequirementObject[];
   tags?: TagObject[];
   externalDocs?: ExternalDocumentationObject;
+  jsonSchemaDialect?: string;
 
   // Allow for specification extension keys
   [key: string]: unknown;
 }
 
+export type OpenapiVersion = "3.0" | "3.1";
+
+/**
+ * Requests are described by the input of their schemas, responses by the output of theirs
+ */
+export type OpenapiSchemaDirection = "input" | "output";
+
+const DIRECTION_SUFFIXES: Record<OpenapiSchemaDirection, string> = {
+  input: "Input",
+  output: "Output",
+};
+
+export interface OpenapiGeneratorOptions {
+  /**
+   * The version of the constructs emitted in the document, defaults to 3.0
+   */
+  openapiVersion?: OpenapiVersion;
+  /**
+   * Which side of the `z.pipeline()` schemas is described everywhere. By default, it is the side of the direction
+   * of the schema: the input one for the requests and the output one for the responses.
+   */
+  pipelineSide?: OpenapiSchemaDirection;
+  /**
+   * Hoists the unregistered schemas used several times into `components/schemas`, disabled by default
+   */
+  extractComponents?: boolean | OpenapiComponentExtractionOptions;
+}
+
+const OPENAPI_31_JSON_SCHEMA_DIALECT = "https://spec.openapis.org/oas/3.1/dialect/base";
+
 interface ParameterData {
   in?: ParameterLocation;
   name?: string;
 }
 
+/**
+ * Suffixes the references to a schema component, found in its own schema when it is recursive
+ */
+function renameSchemaReference<T>(value: T, refId: string, suffix: string): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => renameSchemaReference(item, refId, suffix)) as T;
+  }
+
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      key === "$ref" && item === `#/components/schemas/${refId}`
+        ? `${item}${suffix}`
+        : renameSchemaReference(item, refId, suffix),
+    ]),
+  ) as T;
+}
+
 export class OpenapiGenerator {
   private schemaRefs: Record<string, SchemaObject> = {};
   private paramRefs: Record<string, ParameterObject> = {};
+  private responseRefs: Record<string, ResponseObject> = {};
+  private requestBodyRefs: Record<string, RequestBodyObject> = {};
+  private headerRefs: Record<string, HeaderObject> = {};
+  // Registered responses, request bodies and headers are used as-is in the routes, so they are known by identity
+  private componentRefs = new Map<object, ReferenceObject>();
   private pathRefs: Record<string, Record<string, PathsObject>> = {};
+  private webhookRefs: Record<string, PathItemObject> = {};
+  private openapiVersion: OpenapiVersion;
+  private pipelineSide: OpenapiSchemaDirection | undefined;
+  private direction: OpenapiSchemaDirection = "input";
+  // The registered schemas whose input and output differ, emitted as two components suffixed by their direction
+  private directionalSchemaIds = new Set<string>();
+  private componentExtraction: OpenapiComponentExtractionOptions | undefined;
+  // Registering a lazy schema clones it, its getter identifies both the clone and the original
+  private lazyRefIds = new Map<() => ZodTypeAny, string>();
+  private schemasInProgress = new Set<string>();
+  private lazySchemasInProgress = new Set<() => ZodTypeAny>();
+  private schemaPath: string[] = [];
   private rawComponents: {
     componentType: string;
     name: string;
     component: OpenapiComponentObject;
   }[] = [];
 
-  constructor(private definitions: OpenapiDefinitions[]) {
+  constructor(
+    private definitions: OpenapiDefinitions[],
+    { openapiVersion = "3.0", pipelineSide, extractComponents = false }: OpenapiGeneratorOptions = {},
+  ) {
+    this.openapiVersion = openapiVersion;
+    this.pipelineSide = pipelineSide;
+    this.componentExtraction = extractComponents === true ? {} : extractComponents || undefined;
     this.sortDefinitions();
+
+    this.definitions.forEach((definition) => {
+      if (definition.type === "response") {
+        this.componentRefs.set(definition.response, { $ref: `#/components/responses/${definition.name}` });
+      }
+
+      if (definition.type === "requestBody") {
+        this.componentRefs.set(definition.requestBody, { $ref: `#/components/requestBodies/${definition.name}` });
+      }
+
+      if (definition.type === "header") {
+        this.componentRefs.set(definition.header, { $ref: `#/components/headers/${definition.name}` });
+      }
+
+      if (definition.type === "schema" && isZodType(definition.schema, "ZodLazy")) {
+        const refId = definition.schema._def.openapi?.refId;
+
+        if (refId) {
+          this.lazyRefIds.set(definition.schema._def.getter, refId);
+        }
+      }
+    });
   }
 
   generateDocument(config: OpenapiObjectConfig): OpenapiObject {
     this.definitions.forEach((definition) => this.generateSingle(definition));
 
-    return {
+    const isOpenapi31 = this.openapiVersion === "3.1";
+    const components = this.buildComponents();
+
+    const document: OpenapiObject = {
       ...config,
-      components: this.buildComponents(),
+      ...(isOpenapi31 ? { jsonSchemaDialect: config.jsonSchemaDialect ?? OPENAPI_31_JSON_SCHEMA_DIALECT } : {}),
+      components,
       paths: this.pathRefs,
+      ...(isOpenapi31 && Object.keys(this.webhookRefs).length > 0 ? { webhooks: this.webhookRefs } : {}),
     };
+    const extracted = this.componentExtraction ? extractComponents(document, this.componentExtraction) : document;
+
+    // A configured dialect is also declared by each component schema, including the extracted ones. It is added
+    // once extracted, otherwise the component schemas would never be identical to the inline ones
+    if (isOpenapi31 && config.jsonSchemaDialect !== undefined && extracted.components?.schemas) {
+      const schemas = mapValues(
+        extracted.components.schemas,
+        (schema) => "$ref" in schema ? schema : { $schema: config.jsonSchemaDialect, ...schema },
+      );
+
+      return { ...extracted, components: { ...extracted.components, schemas } };
+    }
+
+    return extracted;
   }
 
   private buildComponents() {
@@ -109,14 +254,34 @@ export class OpenapiGenerator {
         ...(rawComponents.parameters ?? {}),
         ...this.paramRefs,
       },
+
+      ...this.mergeComponents("responses", rawComponents.responses, this.responseRefs),
+      ...this.mergeComponents("requestBodies", rawComponents.requestBodies, this.requestBodyRefs),
+      ...this.mergeComponents("headers", rawComponents.headers, this.headerRefs),
     };
   }
 
+  private mergeComponents<K extends "responses" | "requestBodies" | "headers">(
+    componentType: K,
+    rawComponents: ComponentsObject[K],
+    generatedComponents: NonNullable<ComponentsObject[K]>,
+  ): ComponentsObject {
+    if (!rawComponents && Object.keys(generatedComponents).length === 0) {
+      return {};
+    }
+
+    return { [componentType]: { ...rawComponents, ...generatedComponents } };
+  }
+
   private sortDefinitions() {
     const generationOrder: OpenapiDefinitions["type"][] = [
       "schema",
       "parameter",
+      "header",
+      "response",
+      "requestBody",
       "route",
+      "webhook",
     ];
 
     this.definitions.sort((left, right) => {
@@ -130,17 +295,49 @@ export class OpenapiGenerator {
   private generateSingle(definition: OpenapiDefinitions): void {
     switch (definition.type) {
       case "parameter":
-        this.generateParameterDefinition(definition.schema);
+        this.withDirection("input", () => this.generateParameterDefinition(definition.schema));
         return;
 
       case "schema":
         this.generateSchemaDefinition(definition.schema);
         return;
 
+      case "header":
+        this.headerRefs[definition.name] = this.withDirection(
+          "output",
+          () => this.generateResponseHeader(definition.header),
+        );
+        return;
+
+      case "response":
+        this.responseRefs[definition.name] = this.withSchemaPath(
+          definition.name,
+          () => this.withDirection("output", () => this.generateResponse(definition.response)),
+        );
+        return;
+
+      case "requestBody":
+        this.requestBodyRefs[definition.name] = this.withSchemaPath(
+          definition.name,
+          () => this.withDirection("input", () => this.generateRequestBody(definition.requestBody)),
+        );
+        return;
+
       case "route":
         this.generateSingleRoute(definition.route);
         return;
 
+      case "webhook":
+        // Webhooks do not exist in OpenAPI 3.0
+        if (this.openapiVersion === "3.1") {
+          // The requests of webhooks are sent by the API, and their responses received by it
+          this.webhookRefs[definition.name] = this.withSchemaPath(
+            definition.name,
+            () => this.generatePathItem(definition.webhook, "output"),
+          );
+        }
+        return;
+
       case "component":
         this.rawComponents.push(definition);
         return;
@@ -298,18 +495,32 @@ export class OpenapiGenerator {
     const innerSchema = this.unwrapChained(zodSchema);
     const metadata = zodSchema._def.openapi ? zodSchema._def.openapi : innerSchema._def.openapi;
 
-    const refId = metadata?.refId;
+    const refId = metadata?.refId ??
+      (isZodType(innerSchema, "ZodLazy") ? this.lazyRefIds.get(innerSchema._def.getter) : undefined);
 
-    if (refId && this.schemaRefs[refId]) {
+    // A schema being generated can only be referenced by itself, which happens with recursive schemas
+    if (
+      refId && (this.schemaRefs[refId] || this.directionalSchemaIds.has(refId) || this.schemasInProgress.has(refId))
+    ) {
       const referenceObject = {
-        $ref: `#/components/schemas/${refId}`,
+        $ref: `#/components/schemas/${this.getSchemaComponentName(refId)}`,
       };
 
+      // OpenAPI 3.1 allows siblings next to a $ref
+      if (this.openapiVersion === "3.1") {
+        const siblingReferenceObject = {
+          ...referenceObject,
+          ...(metadata ? this.buildSchemaMetadata(metadata) : {}),
+        };
+
+        return zodSchema.isNullable() ? { anyOf: [siblingReferenceObject, { type: "null" }] } : siblingReferenceObject;
+      }
+
       const nullableMetadata = zodSchema.isNullable() ? { nullable: true } : {};
 
       const appliedMetadata = this.applySchemaMetadata(
         nullableMetadata,
-        metadata,
+        metadata ?? {},
       );
 
       if (Object.keys(appliedMetadata).length > 0) {
@@ -321,13 +532,110 @@ export class OpenapiGenerator {
       return referenceObject;
     }
 
+    const defaultValue = this.getDefaultValue(zodSchema);
+
     const result = metadata?.type
       ? {
         type: metadata?.type,
       }
-      : this.toOpenapiSchema(innerSchema, zodSchema.isNullable());
+      : {
+        ...this.withSchemaInProgress(refId, () => this.toOpenapiSchema(innerSchema, zodSchema.isNullable())),
+        ...(defaultValue !== undefined ? { default: defaultValue } : {}),
+      };
+
+    const schema = metadata
+      ? this.applySchemaMetadata(result, metadata)
+      : omitBy(result as Record<string, unknown>, isNil);
+    // The keywords of the current direction only complete the generated ones, e.g. for the output of a transform
+    const directionalSchema = metadata?.[this.direction] ? { ...metadata[this.direction], ...schema } : schema;
 
-    return metadata ? this.applySchemaMetadata(result, metadata) : omitBy(result as Record<string, unknown>, isNil);
+    return this.openapiVersion === "3.1" ? this.toOpenapi31Nullable(directionalSchema) : directionalSchema;
+  }
+
+  private withDirection<T>(direction: OpenapiSchemaDirection, generate: () => T): T {
+    const previousDirection = this.direction;
+    this.direction = direction;
+
+    try {
+      return generate();
+    } finally {
+      this.direction = previousDirection;
+    }
+  }
+
+  private getSchemaComponentName(refId: string): string {
+    return this.directionalSchemaIds.has(refId) ? `${refId}${DIRECTION_SUFFIXES[this.direction]}` : refId;
+  }
+
+  private withSchemaInProgress<T>(refId: string | undefined, generate: () => T): T {
+    if (!refId) {
+      return generate();
+    }
+
+    this.schemasInProgress.add(refId);
+
+    try {
+      return generate();
+    } finally {
+      this.schemasInProgress.delete(refId);
+    }
+  }
+
+  /**
+   * Keeps track of where the schemas being generated are, to name them in errors
+   */
+  private withSchemaPath<T>(segment: string, generate: () => T): T {
+    this.schemaPath.push(segment);
+
+    try {
+      return generate();
+    } finally {
+      this.schemaPath.pop();
+    }
+  }
+
+  /**
+   * Unregistered recursive schemas can not be referenced, so expanding them would never end
+   */
+  private toOpenapiLazySchema(zodSchema: ZodLazy<ZodTypeAny>): SchemaObject | ReferenceObject {
+    const getter = zodSchema._def.getter;
+
+    if (this.lazySchemasInProgress.has(getter)) {
+      throw new UnregisteredRecursiveSchemaError({ path: [...this.schemaPath] });
+    }
+
+    this.lazySchemasInProgress.add(getter);
+
+    try {
+      return this.generateInnerSchema(zodSchema.schema);
+    } finally {
+      this.lazySchemasInProgress.delete(getter);
+    }
+  }
+
+  /**
+   * Replaces the OpenAPI 3.0 `nullable` keyword by the "null" type of JSON Schema
+   */
+  private toOpenapi31Nullable(schema: SchemaObject | ReferenceObject): SchemaObject | ReferenceObject {
+    if (!("nullable" in schema)) {
+      return schema;
+    }
+
+    const { nullable, ...rest } = schema;
+
+    if (!nullable) {
+      return rest;
+    }
+
+    if (rest.type === undefined || rest.const !== undefined) {
+      return { anyOf: [rest, { type: "null" }] };
+    }
+
+    return {
+      ...rest,
+      type: [...(Array.isArray(rest.type) ? rest.type : [rest.type]), "null"],
+      ...(rest.enum ? { enum: [...rest.enum, null] } : {}),
+    };
   }
 
   private generateInnerSchema(
@@ -347,33 +655,60 @@ export class OpenapiGenerator {
       : simpleSchema;
   }
 
-  private generateSchemaDefinition(zodSchema: ZodSchema<any>): SchemaObject {
+  /**
+   * Registered schemas are generated in both directions, and emitted as a single component when they match
+   */
+  private generateSchemaDefinition(zodSchema: ZodSchema<any>): void {
     const metadata = this.getMetadata(zodSchema);
     const refId = metadata?.refId;
 
-    const simpleSchema = this.generateSimpleSchema(zodSchema);
+    if (!refId) {
+      return;
+    }
 
-    const result = metadata
-      // @ts-ignore suppress
-      ? this.applySchemaMetadata(simpleSchema, metadata)
-      : simpleSchema;
+    const generate = (direction: OpenapiSchemaDirection): SchemaObject => {
+      const simpleSchema = this.withSchemaPath(
+        refId,
+        () => this.withDirection(direction, () => this.generateSimpleSchema(zodSchema)),
+      );
 
-    if (refId) {
       // @ts-ignore suppress
-      this.schemaRefs[refId] = result;
+      return this.applySchemaMetadata(simpleSchema, metadata) as SchemaObject;
+    };
+
+    const input = generate("input");
+    const output = generate("output");
+
+    if (objectEquals(input, output)) {
+      this.schemaRefs[refId] = input;
+      return;
     }
 
-    // @ts-ignore suppress
-    return result;
+    // The recursive references were generated before knowing that the schema has two components
+    this.directionalSchemaIds.add(refId);
+    this.schemaRefs[`${refId}${DIRECTION_SUFFIXES.input}`] = renameSchemaReference(
+      input,
+      refId,
+      DIRECTION_SUFFIXES.input,
+    );
+    this.schemaRefs[`${refId}${DIRECTION_SUFFIXES.output}`] = renameSchemaReference(
+      output,
+      refId,
+      DIRECTION_SUFFIXES.output,
+    );
   }
 
   private getRequestBody(
     requestBody: ZodRequestBody | undefined,
-  ): RequestBodyObject | undefined {
+  ): RequestBodyObject | ReferenceObject | undefined {
     if (!requestBody) {
       return;
     }
 
+    return this.componentRefs.get(requestBody) ?? this.generateRequestBody(requestBody);
+  }
+
+  private generateRequestBody(requestBody: ZodRequestBody): RequestBodyObject {
     const { content: _, ...rest } = requestBody;
 
     const requestBodyContent = this.getBodyContent(requestBody.content);
@@ -397,18 +732,44 @@ export class OpenapiGenerator {
 
     const headerParameters = request.headers ? this.generateInlineParameters(request.headers, "header") : [];
 
-    return [...pathParameters, ...queryParameters, ...headerParameters];
+    const cookieParameters = request.cookies ? this.generateInlineParameters(request.cookies, "cookie") : [];
+
+    return [...pathParameters, ...queryParameters, ...headerParameters, ...cookieParameters];
   }
 
   private generateSingleRoute(route: ZodRouteConfig) {
-    const { method, path, request, responses, ...pathItemConfig } = route;
+    const { path, ...operation } = route;
+    const routeDoc = this.withSchemaPath(
+      `${route.method.toUpperCase()} ${path}`,
+      () => this.generatePathItem(operation),
+    );
 
-    const generatedResponses = mapValues(responses, (response) => {
-      return this.getResponse(response);
-    });
+    // Greedy parameters are only known to the router and the client, the document has plain ones
+    const openapiPath = toOpenapiPath(path);
 
-    const parameters = this.getParameters(request);
-    const requestBody = this.getRequestBody(request?.body);
+    // @ts-ignore suppress
+    this.pathRefs[openapiPath] = {
+      ...this.pathRefs[openapiPath],
+      ...routeDoc,
+    };
+
+    return routeDoc;
+  }
+
+  private generatePathItem(
+    route: ZodWebhookConfig,
+    requestDirection: OpenapiSchemaDirection = "input",
+  ): PathItemObject {
+    const { method, request, responses, ...pathItemConfig } = route;
+    const responseDirection = requestDirection === "input" ? "output" : "input";
+
+    const generatedResponses = this.withDirection(
+      responseDirection,
+      () => mapValues(responses, (response) => this.getResponse(response)),
+    );
+
+    const parameters = this.withDirection(requestDirection, () => this.getParameters(request));
+    const requestBody = this.withDirection(requestDirection, () => this.getRequestBody(request?.body));
 
     const routeDoc: PathItemObject = {
       [method]: {
@@ -422,20 +783,18 @@ export class OpenapiGenerator {
       },
     };
 
-    // @ts-ignore suppress
-    this.pathRefs[path] = {
-      ...this.pathRefs[path],
-      ...routeDoc,
-    };
-
     return routeDoc;
   }
 
-  private getResponse({
+  private getResponse(response: ZodResponseConfig): ResponseObject | ReferenceObject {
+    return this.componentRefs.get(response) ?? this.generateResponse(response);
+  }
+
+  private generateResponse({
     content,
     headers,
     ...rest
-  }: ZodResponseConfig): ResponseObject | ReferenceObject {
+  }: ZodResponseConfig): ResponseObject {
     const responseContent = content ? { content: this.getBodyContent(content) } : {};
     const responseHeaders = headers ? { headers: this.getResponseHeaders(headers) } : {};
 
@@ -447,15 +806,17 @@ export class OpenapiGenerator {
   }
 
   private getResponseHeaders(headers: ZodResponseHeadersObject): HeadersObject {
-    return mapValues(headers, (config) => {
-      if (!isAnyZodType(config.schema)) {
-        return config;
-      }
+    return mapValues(headers, (config) => this.componentRefs.get(config) ?? this.generateResponseHeader(config));
+  }
 
-      const schema = this.generateInnerSchema(config.schema);
+  private generateResponseHeader(config: ZodResponseHeaderObject): HeaderObject {
+    if (!isAnyZodType(config.schema)) {
+      return config as HeaderObject;
+    }
 
-      return { ...config, schema };
-    });
+    const schema = this.generateInnerSchema(config.schema);
+
+    return { ...config, schema };
   }
 
   private getBodyContent(content: ZodContentObject): ContentObject {
@@ -470,37 +831,138 @@ export class OpenapiGenerator {
     });
   }
 
-  private getZodStringCheck<T extends ZodStringDef["checks"][number]["kind"]>(
-    zodString: ZodString,
-    kind: T,
-  ) {
-    return zodString._def.checks.find(
-      (
-        check,
-      ): check is Extract<
-        ZodStringDef["checks"][number],
-        { kind: typeof kind }
-      > => {
-        return check.kind === kind;
-      },
-    );
+  /**
+   * Maps the checks of Zod strings to their length, known formats and patterns
+   * https://json-schema.org/understanding-json-schema/reference/string.html#built-in-formats
+   */
+  private toOpenapiStringSchema(zodString: ZodString, isNullable: boolean): SchemaObject {
+    let minLength: number | undefined;
+    let maxLength: number | undefined;
+    let format: string | undefined;
+    const patterns: string[] = [];
+
+    for (const check of zodString._def.checks) {
+      if (check.kind === "min" || check.kind === "length") {
+        minLength = Math.max(minLength ?? 0, check.value);
+      }
+
+      if (check.kind === "max" || check.kind === "length") {
+        maxLength = Math.min(maxLength ?? Infinity, check.value);
+      }
+
+      if (check.kind === "regex") {
+        patterns.push(check.regex.source);
+      }
+
+      if (check.kind === "startsWith") {
+        patterns.push(`^${escapeRegExp(check.value)}`);
+      }
+
+      if (check.kind === "endsWith") {
+        patterns.push(`${escapeRegExp(check.value)}$`);
+      }
+
+      if (check.kind === "includes") {
+        patterns.push(
+          check.position ? `^[\\s\\S]{${check.position},}${escapeRegExp(check.value)}` : escapeRegExp(check.value),
+        );
+      }
+
+      if (check.kind === "ip") {
+        format ??= check.version ? `ip${check.version}` : "ip";
+      }
+
+      format ??= STRING_FORMATS[check.kind];
+    }
+
+    return {
+      type: "string",
+      nullable: isNullable ? true : undefined,
+      format,
+      minLength,
+      maxLength,
+      // Only a single pattern is allowed per schema, the others have to be combined
+      pattern: patterns[0],
+      allOf: patterns.length > 1 ? patterns.slice(1).map((pattern) => ({ pattern })) : undefined,
+    };
   }
 
   /**
-   * Attempts to map Zod strings to known formats
-   * https://json-schema.org/understanding-json-schema/reference/string.html#built-in-formats
+   * Maps the checks of Zod numbers to their bounds, keeping the most restrictive ones
+   */
+  private toOpenapiNumberSchema(zodNumber: ZodNumber, isNullable: boolean): SchemaObject {
+    let minimum: { value: number; inclusive: boolean } | undefined;
+    let maximum: { value: number; inclusive: boolean } | undefined;
+    let multipleOf: number | undefined;
+
+    for (const check of zodNumber._def.checks) {
+      if (
+        check.kind === "min" &&
+        (!minimum || check.value > minimum.value || (check.value === minimum.value && !check.inclusive))
+      ) {
+        minimum = check;
+      }
+
+      if (
+        check.kind === "max" &&
+        (!maximum || check.value < maximum.value || (check.value === maximum.value && !check.inclusive))
+      ) {
+        maximum = check;
+      }
+
+      if (check.kind === "multipleOf") {
+        multipleOf = check.value;
+      }
+
+      // There is nothing to map for "finite", as JSON can not represent infinite numbers anyway
+    }
+
+    return {
+      type: zodNumber.isInt ? "integer" : "number",
+      nullable: isNullable ? true : undefined,
+      multipleOf,
+      ...this.toOpenapiBounds(minimum, maximum),
+    };
+  }
+
+  /**
+   * Exclusive bounds are booleans next to the bound in OpenAPI 3.0, but the bound itself in OpenAPI 3.1
    */
-  private mapStringFormat(zodString: ZodString): string | undefined {
-    if (zodString.isUUID) {
-      return "uuid";
+  private toOpenapiBounds(
+    minimum: { value: number; inclusive: boolean } | undefined,
+    maximum: { value: number; inclusive: boolean } | undefined,
+  ): Pick<SchemaObject, "minimum" | "exclusiveMinimum" | "maximum" | "exclusiveMaximum"> {
+    if (this.openapiVersion === "3.1") {
+      return {
+        minimum: minimum?.inclusive ? minimum.value : undefined,
+        exclusiveMinimum: minimum && !minimum.inclusive ? minimum.value : undefined,
+        maximum: maximum?.inclusive ? maximum.value : undefined,
+        exclusiveMaximum: maximum && !maximum.inclusive ? maximum.value : undefined,
+      };
     }
 
-    if (zodString.isEmail) {
-      return "email";
+    return {
+      minimum: minimum?.value,
+      exclusiveMinimum: minimum && !minimum.inclusive ? true : undefined,
+      maximum: maximum?.value,
+      exclusiveMaximum: maximum && !maximum.inclusive ? true : undefined,
+    };
+  }
+
+  /**
+   * Finds the default value of a schema, through its optional and nullable wrappers
+   */
+  private getDefaultValue(zodSchema: ZodSchema<any>): unknown {
+    if (isZodType(zodSchema, "ZodOptional") || isZodType(zodSchema, "ZodNullable")) {
+      return this.getDefaultValue(zodSchema.unwrap());
     }
 
-    if (zodString.isURL) {
-      return "uri";
+    if (isZodType(zodSchema, "ZodDefault")) {
+      return zodSchema._def.defaultValue();
+    }
+
+    if (isZodType(zodSchema, "ZodEffects") && zodSchema._def.effect.type === "refinement") {
+      return this.getDefaultValue(zodSchema._def.schema);
     }
 
     return undefined;
@@ -515,20 +977,35 @@ export class OpenapiGenerator {
     }
 
     if (isZodType(zodSchema, "ZodString")) {
-      const regexCheck = this.getZodStringCheck(zodSchema, "regex");
+      return this.toOpenapiStringSchema(zodSchema, isNullable);
+    }
+
+    if (isZodType(zodSchema, "ZodNumber")) {
+      return this.toOpenapiNumberSchema(zodSchema, isNullable);
+    }
+
+    // Bigints are serialized to JSON as strings, since numbers would lose their precision
+    if (isZodType(zodSchema, "ZodBigInt")) {
       return {
         type: "string",
+        format: "int64",
         nullable: isNullable ? true : undefined,
-        format: this.mapStringFormat(zodSchema),
-        pattern: regexCheck?.regex.source,
       };
     }
 
-    if (isZodType(zodSchema, "ZodNumber")) {
+    // NaN is still a number, even though JSON has no representation for it
+    if (isZodType(zodSchema, "ZodNaN")) {
+      return {
+        type: "number",
+        nullable: isNullable ? true : undefined,
+      };
+    }
+
+    // Dates are serialized to JSON as ISO 8601 strings
+    if (isZodType(zodSchema, "ZodDate")) {
       return {
-        type: zodSchema.isInt ? "integer" : "number",
-        minimum: zodSchema.minValue ?? undefined,
-        maximum: zodSchema.maxValue ?? undefined,
+        type: "string",
+        format: "date-time",
         nullable: isNullable ? true : undefined,
       };
     }
@@ -546,17 +1023,47 @@ export class OpenapiGenerator {
       return this.generateInnerSchema(innerSchema);
     }
 
-    if (
-      isZodType(zodSchema, "ZodEffects") &&
-      (zodSchema._def.effect.type === "refinement" ||
-        zodSchema._def.effect.type === "preprocess")
-    ) {
+    // The output of a transform can not be described, unless by the `output` metadata, its input is
+    if (isZodType(zodSchema, "ZodEffects")) {
+      if (this.direction === "output" && zodSchema._def.effect.type === "transform") {
+        return {};
+      }
+
       const innerSchema = zodSchema._def.schema as ZodSchema<any>;
       // @ts-ignore suppress
       return this.generateInnerSchema(innerSchema);
     }
 
+    if (isZodType(zodSchema, "ZodBranded")) {
+      // @ts-ignore suppress
+      return this.generateInnerSchema(zodSchema._def.type);
+    }
+
+    if (isZodType(zodSchema, "ZodCatch") || isZodType(zodSchema, "ZodReadonly")) {
+      // @ts-ignore suppress
+      return this.generateInnerSchema(zodSchema._def.innerType);
+    }
+
+    if (isZodType(zodSchema, "ZodLazy")) {
+      // @ts-ignore suppress
+      return this.toOpenapiLazySchema(zodSchema);
+    }
+
+    if (isZodType(zodSchema, "ZodPipeline")) {
+      const innerSchema = (this.pipelineSide ?? this.direction) === "input" ? zodSchema._def.in : zodSchema._def.out;
+      // @ts-ignore suppress
+      return this.generateInnerSchema(innerSchema);
+    }
+
     if (isZodType(zodSchema, "ZodLiteral")) {
+      if (this.openapiVersion === "3.1") {
+        return {
+          type: typeof zodSchema._def.value as SchemaObject["type"],
+          nullable: isNullable ? true : undefined,
+          const: zodSchema._def.value,
+        };
+      }
+
       return {
         type: typeof zodSchema._def.value as SchemaObject["type"],
         nullable: isNullable ? true : undefined,
@@ -594,13 +1101,17 @@ export class OpenapiGenerator {
 
       return {
         type: "array",
-        items: this.generateInnerSchema(itemType),
+        items: this.withSchemaPath("items", () => this.generateInnerSchema(itemType)),
 
-        minItems: zodSchema._def.minLength?.value,
-        maxItems: zodSchema._def.maxLength?.value,
+        minItems: zodSchema._def.exactLength?.value ?? zodSchema._def.minLength?.value,
+        maxItems: zodSchema._def.exactLength?.value ?? zodSchema._def.maxLength?.value,
       };
     }
 
+    if (isZodType(zodSchema, "ZodTuple")) {
+      return this.toOpenapiTupleSchema(zodSchema, isNullable);
+    }
+
     if (isZodType(zodSchema, "ZodUnion")) {
       const options = this.flattenUnionTypes(zodSchema);
 
@@ -633,14 +1144,37 @@ export class OpenapiGenerator {
 
       return {
         type: "object",
-        additionalProperties: this.generateInnerSchema(propertiesType),
+        additionalProperties: this.withSchemaPath(
+          "additionalProperties",
+          () => this.generateInnerSchema(propertiesType),
+        ),
       };
     }
 
-    if (isZodType(zodSchema, "ZodUnknown")) {
+    if (isZodType(zodSchema, "ZodSet")) {
+      return {
+        type: "array",
+        nullable: isNullable ? true : undefined,
+        items: this.generateInnerSchema(zodSchema._def.valueType),
+        uniqueItems: true,
+        minItems: zodSchema._def.minSize?.value,
+        maxItems: zodSchema._def.maxSize?.value,
+      };
+    }
+
+    if (isZodType(zodSchema, "ZodMap")) {
+      return this.toOpenapiMapSchema(zodSchema, isNullable);
+    }
+
+    if (isZodType(zodSchema, "ZodUnknown") || isZodType(zodSchema, "ZodAny")) {
       return {};
     }
 
+    // Nothing is valid, as no value can be represented by these in JSON
+    if (isZodType(zodSchema, "ZodNever") || isZodType(zodSchema, "ZodUndefined") || isZodType(zodSchema, "ZodVoid")) {
+      return { not: {} };
+    }
+
     const refId = this.getMetadata(zodSchema)?.refId;
 
     throw new UnknownZodTypeError({
@@ -654,8 +1188,9 @@ export class OpenapiGenerator {
       return this.isOptionalSchema(zodSchema._def.schema);
     }
 
+    // A default value may be omitted from the input, but is always there in the output
     if (isZodType(zodSchema, "ZodDefault")) {
-      return this.isOptionalSchema(zodSchema._def.innerType);
+      return this.direction === "input";
     }
 
     return zodSchema.isOptional();
@@ -668,23 +1203,23 @@ export class OpenapiGenerator {
     const extendedFrom = zodSchema._def.openapi?.extendedFrom;
 
     const propTypes = zodSchema._def.shape();
-    // @ts-ignore suppress
-    const unknownKeysOption = zodSchema._unknownKeys as UnknownKeysParam;
+    const unknownKeysOption = zodSchema._def.unknownKeys as UnknownKeysParam;
 
     const requiredProperties = Object.entries(propTypes)
       .filter(([_key, type]) => !this.isOptionalSchema(type))
       .map(([key, _type]) => key);
 
-    const schemaProperties = mapValues(
-      propTypes,
-      (propSchema) => this.generateInnerSchema(propSchema),
+    const schemaProperties = Object.fromEntries(
+      Object.entries(propTypes).map((
+        [key, propSchema],
+      ) => [key, this.withSchemaPath(key, () => this.generateInnerSchema(propSchema))]),
     );
 
     let alreadyRegistered: string[] = [];
     let alreadyRequired: string[] = [];
 
     if (extendedFrom) {
-      const registeredSchema = this.schemaRefs[extendedFrom];
+      const registeredSchema = this.schemaRefs[this.getSchemaComponentName(extendedFrom)];
 
       if (!registeredSchema) {
         throw new Error(
@@ -721,18 +1256,98 @@ export class OpenapiGenerator {
 
       ...(additionallyRequired.length > 0 ? { required: additionallyRequired } : {}),
 
-      ...(unknownKeysOption === "passthrough" ? { additionalProperties: true } : {}),
+      ...this.toOpenapiAdditionalProperties(zodSchema, unknownKeysOption),
     };
 
     if (extendedFrom) {
       return {
-        allOf: [{ $ref: `#/components/schemas/${extendedFrom}` }, objectData],
+        allOf: [{ $ref: `#/components/schemas/${this.getSchemaComponentName(extendedFrom)}` }, objectData],
       };
     }
 
     return objectData;
   }
 
+  private toOpenapiAdditionalProperties(
+    zodSchema: ZodObject<ZodRawShape>,
+    unknownKeysOption: UnknownKeysParam,
+  ): Pick<SchemaObject, "additionalProperties"> {
+    if (!isZodType(zodSchema._def.catchall, "ZodNever")) {
+      return { additionalProperties: this.generateInnerSchema(zodSchema._def.catchall) };
+    }
+
+    if (unknownKeysOption === "passthrough") {
+      return { additionalProperties: true };
+    }
+
+    if (unknownKeysOption === "strict") {
+      return { additionalProperties: false };
+    }
+
+    return {};
+  }
+
+  /**
+   * Maps with string keys are described as objects, other maps as arrays of [key, value] entries
+   */
+  private toOpenapiMapSchema(zodSchema: ZodMap, isNullable: boolean): SchemaObject {
+    const keyType = this.unwrapChained(zodSchema._def.keyType);
+    const valueSchema = this.generateInnerSchema(zodSchema._def.valueType);
+
+    if (isZodType(keyType, "ZodString") || isZodType(keyType, "ZodEnum")) {
+      return {
+        type: "object",
+        nullable: isNullable ? true : undefined,
+        additionalProperties: valueSchema,
+      };
+    }
+
+    const keySchema = this.generateInnerSchema(zodSchema._def.keyType);
+    const entrySchema: SchemaObject = this.openapiVersion === "3.1"
+      ? { type: "array", prefixItems: [keySchema, valueSchema], minItems: 2, maxItems: 2 }
+      : { type: "array", items: { anyOf: [keySchema, valueSchema] }, minItems: 2, maxItems: 2 };
+
+    return {
+      type: "array",
+      nullable: isNullable ? true : undefined,
+      items: entrySchema,
+    };
+  }
+
+  /**
+   * Tuples are fixed-length arrays: in OpenAPI 3.0 each item may be any of the tuple types,
+   * OpenAPI 3.1 describes every position with `prefixItems`
+   */
+  private toOpenapiTupleSchema(zodSchema: ZodTuple, isNullable: boolean): SchemaObject {
+    const itemTypes = zodSchema._def.items as ZodSchema<any>[];
+    const restType = zodSchema._def.rest as ZodSchema<any> | null;
+    const lengthConstraints = {
+      minItems: itemTypes.length,
+      maxItems: restType ? undefined : itemTypes.length,
+    };
+
+    if (this.openapiVersion === "3.1") {
+      return {
+        type: "array",
+        nullable: isNullable ? true : undefined,
+        prefixItems: itemTypes.map((schema) => this.generateInnerSchema(schema)),
+        ...(restType ? { items: this.generateInnerSchema(restType) } : {}),
+        ...lengthConstraints,
+      };
+    }
+
+    const possibleItems = [...itemTypes, ...(restType ? [restType] : [])]
+      .map((schema) => this.generateInnerSchema(schema))
+      .filter((schema, index, schemas) => schemas.findIndex((other) => objectEquals(other, schema)) === index);
+
+    return {
+      type: "array",
+      nullable: isNullable ? true : undefined,
+      items: possibleItems.length === 1 ? possibleItems[0] : { anyOf: possibleItems },
+      ...lengthConstraints,
+    };
+  }
+
   private flattenUnionTypes(schema: ZodSchema<any>): ZodSchema<any>[] {
     if (!isZodType(schema, "ZodUnion")) {
       return [schema];
@@ -773,16 +1388,28 @@ export class OpenapiGenerator {
     return schema;
   }
 
-  private buildSchemaMetadata(metadata: ZodOpenapiMetadata) {
+  private buildSchemaMetadata(metadata: Partial<ZodOpenapiMetadata>) {
     // A place to omit all custom keys added to the openapi
     // @ts-ignore suppress
-    return omitBy(omit(metadata, ["param", "refId", "extendedFrom"]), isNil);
+    const schemaMetadata: Partial<ZodOpenapiMetadata> = omitBy(
+      omit(metadata, ["param", "refId", "extendedFrom", "input", "output"]),
+      isNil,
+    );
+
+    // The `example` keyword of schemas is deprecated in OpenAPI 3.1, in favor of the JSON Schema `examples`
+    if (this.openapiVersion === "3.1" && schemaMetadata.example !== undefined) {
+      const { example, ...rest } = schemaMetadata;
+      return { ...rest, examples: [...(rest.examples ?? []), example] };
+    }
+
+    return schemaMetadata;
   }
 
   private buildParameterMetadata(
     metadata: Required<ZodOpenapiMetadata>["param"],
   ) {
-    return omitBy(metadata, isNil);
+    // Deep objects are only defined exploded, which is how the router reads them
+    return omitBy(metadata.style === "deepObject" ? { ...metadata, explode: true } : metadata, isNil);
   }
 
   private getMetadata(zodSchema: ZodSchema<any>) {
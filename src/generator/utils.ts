@@ -87,3 +87,7 @@ export function objectEquals(x: any, y: any): boolean {
     keysX.every((key) => objectEquals(x[key], y[key]))
   );
 }
+
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
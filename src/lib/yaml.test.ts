@@ -0,0 +1,16 @@
+import { stringifyYaml } from "./yaml.ts";
+import { assertEquals } from "https://deno.land/std@0.200.0/assert/assert_equals.ts";
+
+Deno.test("Strings which YAML would read as another type are quoted", () => {
+  const quoted = [".inf", ".Inf", ".INF", ".nan", ".NaN", ".5", "y", "Y", "n", "N", "yes", "Off", "null", "~"];
+
+  assertEquals(
+    stringifyYaml({ enum: quoted }),
+    `enum:\n${quoted.map((value) => `  - ${JSON.stringify(value)}`).join("\n")}\n`,
+  );
+
+  assertEquals(
+    stringifyYaml({ enum: [".well-known", "yn", "./info", "nan"] }),
+    "enum:\n  - .well-known\n  - yn\n  - ./info\n  - nan\n",
+  );
+});
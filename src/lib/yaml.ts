@@ -0,0 +1,85 @@
+const PLAIN_STRING_PATTERN = /^[A-Za-z_/.][\w ./()-]*$/;
+// The booleans of YAML 1.1 are still read as such by many parsers
+const RESERVED_PLAIN_STRINGS = new Set(["true", "false", "null", "yes", "no", "y", "n", "on", "off", "~"]);
+// Plain strings starting with a dot which are read as floats, such as .inf, .NaN or .5
+const FLOAT_PLAIN_STRING_PATTERN = /^\.(?:inf|nan|\d[\d_]*(?:e[-+]?\d+)?)$/i;
+
+function renderString(value: string): string {
+  if (
+    PLAIN_STRING_PATTERN.test(value) && !value.endsWith(" ") && !RESERVED_PLAIN_STRINGS.has(value.toLowerCase()) &&
+    !FLOAT_PLAIN_STRING_PATTERN.test(value)
+  ) {
+    return value;
+  }
+
+  // A JSON string is a valid double-quoted YAML scalar
+  return JSON.stringify(value);
+}
+
+function renderScalar(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "null";
+  }
+
+  if (typeof value === "string") {
+    return renderString(value);
+  }
+
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? String(value) : value > 0 ? ".inf" : value < 0 ? "-.inf" : ".nan";
+  }
+
+  return String(value);
+}
+
+function isEmptyCollection(value: unknown): boolean {
+  return Array.isArray(value) ? value.length === 0 : Object.keys(value as object).length === 0;
+}
+
+function renderNode(value: unknown, indent: string): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (typeof item === "object" && item !== null && !isEmptyCollection(item)) {
+        const [first, ...rest] = renderNode(item, `${indent}  `);
+        return [`${indent}- ${first.trimStart()}`, ...rest];
+      }
+
+      return [`${indent}- ${renderValue(item)}`];
+    });
+  }
+
+  return Object.entries(value as Record<string, unknown>).flatMap(([key, item]) => {
+    if (item === undefined) {
+      return [];
+    }
+
+    if (typeof item === "object" && item !== null && !isEmptyCollection(item)) {
+      return [`${indent}${renderString(key)}:`, ...renderNode(item, `${indent}  `)];
+    }
+
+    return [`${indent}${renderString(key)}: ${renderValue(item)}`];
+  });
+}
+
+function renderValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return "[]";
+  }
+
+  if (typeof value === "object" && value !== null) {
+    return "{}";
+  }
+
+  return renderScalar(value);
+}
+
+/**
+ * Renders a JSON-compatible value as a block-style YAML document
+ */
+export function stringifyYaml(value: unknown): string {
+  if (typeof value !== "object" || value === null || isEmptyCollection(value)) {
+    return `${renderValue(value)}\n`;
+  }
+
+  return `${renderNode(value, "").join("\n")}\n`;
+}
@@ -1,12 +1,15 @@
 import { z, ZodType } from "../zod.ts";
 
+// The zs* helpers parse the string representation of their underlying value, the requests are described
+// with the wire format of that value whenever the underlying schema does not describe it already
+
 export function zsNumber<T extends ZodType>(underlying: T) {
   return z.preprocess((arg) => {
     if (typeof arg === "string") {
       return parseFloat(arg);
     }
     return arg;
-  }, underlying);
+  }, underlying).openapi({ input: { type: "number" } });
 }
 
 export function zsBigInt<T extends ZodType>(underlying: T) {
@@ -15,7 +18,7 @@ export function zsBigInt<T extends ZodType>(underlying: T) {
       return BigInt(arg);
     }
     return arg;
-  }, underlying);
+  }, underlying).openapi({ input: { type: "string", format: "int64" } });
 }
 
 export function zsBoolean<T extends ZodType>(underlying: T) {
@@ -26,7 +29,8 @@ export function zsBoolean<T extends ZodType>(underlying: T) {
         if (arg === "false") return false;
       }
       return arg;
-    }, underlying);
+    }, underlying)
+    .openapi({ input: { type: "boolean" } });
 }
 
 export function zsDate<T extends ZodType>(underlying: T) {
@@ -34,5 +38,6 @@ export function zsDate<T extends ZodType>(underlying: T) {
     .preprocess((arg) => {
       if (typeof arg === "string") return new Date(arg);
       return arg;
-    }, underlying);
+    }, underlying)
+    .openapi({ input: { type: "string", format: "date-time" } });
 }
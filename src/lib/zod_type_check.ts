@@ -2,24 +2,38 @@
 import type { z } from "../zod.ts";
 
 type ZodTypes = {
+  ZodAny: z.ZodAny;
   ZodArray: z.ZodArray<any>;
+  ZodBigInt: z.ZodBigInt;
   ZodBoolean: z.ZodBoolean;
+  ZodBranded: z.ZodBranded<any, any>;
+  ZodCatch: z.ZodCatch<any>;
+  ZodDate: z.ZodDate;
   ZodDefault: z.ZodDefault<any>;
   ZodEffects: z.ZodEffects<any>;
   ZodEnum: z.ZodEnum<any>;
   ZodIntersection: z.ZodIntersection<any, any>;
+  ZodLazy: z.ZodLazy<any>;
   ZodLiteral: z.ZodLiteral<any>;
+  ZodMap: z.ZodMap<any, any>;
+  ZodNaN: z.ZodNaN;
   ZodNativeEnum: z.ZodNativeEnum<any>;
+  ZodNever: z.ZodNever;
   ZodNull: z.ZodNull;
   ZodNullable: z.ZodNullable<any>;
   ZodNumber: z.ZodNumber;
   ZodObject: z.ZodObject<any>;
   ZodOptional: z.ZodOptional<any>;
+  ZodPipeline: z.ZodPipeline<any, any>;
+  ZodReadonly: z.ZodReadonly<any>;
   ZodRecord: z.ZodRecord;
   ZodSchema: z.ZodSchema;
+  ZodSet: z.ZodSet<any>;
   ZodString: z.ZodString;
   ZodType: z.ZodType;
   ZodTypeAny: z.ZodTypeAny;
+  ZodUndefined: z.ZodUndefined;
+  ZodTuple: z.ZodTuple<any, any>;
   ZodUnion: z.ZodUnion<any>;
   ZodDiscriminatedUnion: z.ZodDiscriminatedUnion<any, any>;
   ZodUnknown: z.ZodUnknown;
@@ -30,7 +44,7 @@ export function isZodType<TypeName extends keyof ZodTypes>(
   schema: any,
   typeName: TypeName,
 ): schema is ZodTypes[TypeName] {
-  return schema.constructor.name === typeName;
+  return schema?.constructor.name === typeName;
 }
 
 export function isAnyZodType(schema: any): schema is z.ZodType {
@@ -3,4 +3,9 @@ export * from "./openapi_client.ts";
 export * from "./openapi_registry.ts";
 export * from "./openapi_endpoint.ts";
 export * from "./openapi_server.ts";
+export * from "./openapi_middleware.ts";
+export * from "./openapi_security.ts";
+export * from "./openapi_cors.ts";
+export * from "./openapi_problem.ts";
+export * from "./openapi_codec.ts";
 export * from "./lib/zod_string_like.ts";
@@ -13,16 +13,29 @@ import {
   TypedResponse,
 } from "./types/shared.ts";
 import { ZodError } from "./zod.ts";
+import { OpenapiSecurityCredentialsProvider } from "./openapi_security.ts";
+import { applySecurityCredentials } from "./runtime/security.ts";
+import { SecurityRequirementObject } from "./types/spec/openapi.ts";
+import { serializeRequestBody } from "./runtime/request_body.ts";
+import { parseCookieHeader, renderCookieHeader } from "./runtime/cookies.ts";
+import { OPENAPI_PROBLEM_MEDIA_TYPE, OpenapiProblemDetails, OpenapiProblemDetailsSchema } from "./openapi_problem.ts";
+import { isJsonMediaType, toMediaTypeEssence } from "./runtime/request_body.ts";
+import { OpenapiRequestParamKeySchema, OpenapiRequestQueryKeySchema } from "./runtime/request.ts";
+import { serializeQueryParameter } from "./runtime/query.ts";
+import { serializePathParameter } from "./runtime/path.ts";
+import { defaultOpenapiJsonCodec, OpenapiJsonCodec } from "./openapi_codec.ts";
 
 interface OpenapiClientRequestContext<
   P extends MaybeRecord = MaybeRecord,
   Q extends MaybeRecord = MaybeRecord,
   H extends MaybeRecord = MaybeRecord,
   B = unknown,
+  C extends MaybeRecord = MaybeRecord,
 > {
   params: P;
   query: Q;
   headers: H;
+  cookies: C;
   body: B;
 }
 
@@ -49,6 +62,18 @@ export class OpenapiClientUnexpectedResponseError extends Error {
   }
 }
 
+/**
+ * Thrown for the undeclared responses which are RFC 9457 problem details, such as the errors of a router
+ * with `problemDetails` enabled
+ */
+export class OpenapiClientProblemError extends Error {
+  readonly name = OpenapiClientProblemError.name;
+  constructor(readonly problem: OpenapiProblemDetails, readonly response: Response) {
+    super(problem.detail ?? problem.title ?? `Received a problem with status=${response.status}`);
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
 export class OpenapiClientResponseHeaderValidationError extends Error {
   readonly name = OpenapiClientResponseHeaderValidationError.name;
   constructor(readonly headerName: string, readonly headerValue: string | null, readonly error: ZodError<unknown>) {
@@ -80,8 +105,8 @@ export class OpenapiClientResponseValidationError extends Error {
 }
 
 type ExtractClientRequestArg<Bag> = Bag extends
-  OpenapiEndpointTypeBag<infer P, infer Q, infer H, infer B, unknown, unknown, unknown>
-  ? StripEmptyObjectType<ExcludeUndefinedValue<OpenapiClientRequestContext<P, Q, H, B>>>
+  OpenapiEndpointTypeBag<infer P, infer Q, infer H, infer B, unknown, unknown, unknown, unknown, infer C>
+  ? StripEmptyObjectType<ExcludeUndefinedValue<OpenapiClientRequestContext<P, Q, H, B, C>>>
   : undefined;
 
 type ExtractClientResponseArg<Bag> = Bag extends
@@ -89,19 +114,34 @@ type ExtractClientResponseArg<Bag> = Bag extends
   ? TypedResponseToClientResponse<R>
   : ClientResponse<number, string, unknown, HeadersInit>;
 
+type WithoutData<R> = R extends ClientResponse<infer S, infer M, unknown, infer H> ? ClientResponse<S, M, undefined, H>
+  : never;
+
 type TypedResponseToClientResponse<R> = R extends TypedResponse<infer S, infer M, infer D, infer H>
   ? ClientResponse<S, M, D, H>
   : never;
 
-function renderPath(template: string, params?: Record<string, string>) {
+function renderPath(
+  template: string,
+  params?: Record<string, unknown>,
+  paramSchemas: OpenapiRequestParamKeySchema[] = [],
+) {
   if (params) {
-    return template.replace(/\{([^}]+)\}/g, (_, key) => {
+    return template.replace(/\{([^}+]+)(\+)?\}/g, (_, key, greedy) => {
       if (!(key in params)) {
         throw new Error(
           `Expected path key ${key} doesnt exist in payload: ${JSON.stringify(params)}`,
         );
       }
-      return encodeURIComponent(params[key]);
+
+      const paramSchema = paramSchemas.find((schema) => schema.key === key);
+
+      // Undeclared parameters are sent in the simple style
+      return serializePathParameter(
+        params[key],
+        paramSchema ?? { key, style: "simple", explode: false },
+        greedy !== undefined,
+      );
     });
   }
 
@@ -110,45 +150,107 @@ function renderPath(template: string, params?: Record<string, string>) {
 
 const acceptHeaderValueByEndpointMap = new WeakMap<OpenapiEndpoint, string>();
 
-function toStringValue(value: unknown) {
-  if (value instanceof Date) {
-    return value.toISOString();
-  }
-  return String(value);
-}
-
-function toUrlSearchParams(query: Record<string, unknown>) {
+function toUrlSearchParams(query: Record<string, unknown>, querySchemas: OpenapiRequestQueryKeySchema[] = []) {
   const params = Object.entries(query).flatMap(([key, value]) => {
-    if (Array.isArray(value)) {
-      return value.map((v) => [key, toStringValue(v)]);
-    }
-    return [[key, toStringValue(value)]];
+    const querySchema = querySchemas.find((schema) => schema.key === key);
+
+    // Undeclared parameters are sent as exploded forms
+    return serializeQueryParameter(value, querySchema ?? { key, style: "form", explode: true });
   });
 
   return new URLSearchParams(params);
 }
 
-async function openapiFetch({ baseUrl, pathTemplate, method, request, endpoint }: {
-  baseUrl: string;
-  pathTemplate: string;
-  method: ZodRouteConfig["method"];
-  request?: OpenapiClientRequestContext;
-  endpoint: OpenapiEndpoint;
-}): Promise<ClientResponse> {
-  const requestParams = request?.params !== undefined ? transformRecordToStringValues(request.params) : undefined;
-  const searchParams = request?.query !== undefined ? toUrlSearchParams(request.query) : undefined;
-  const requestPath = requestParams ? renderPath(pathTemplate, requestParams) : pathTemplate;
-  const requestUrl = new URL(
-    `${baseUrl}${requestPath}${searchParams !== undefined ? `?${searchParams}` : ""}`,
-  );
+// deno-lint-ignore no-explicit-any
+export type AnyOpenapiSecurityCredentialsProvider = OpenapiSecurityCredentialsProvider<string, any>;
+
+/**
+ * Injects the credentials of the first security requirement of the endpoint for which all the schemes
+ * have a provider which returns credentials. Endpoints without a `security` declaration fall back to the
+ * default requirements of the client, no credentials are sent when there are none.
+ */
+async function applySecurity(
+  requirements: SecurityRequirementObject[],
+  providerMap: Map<string, AnyOpenapiSecurityCredentialsProvider>,
+  target: { headers: Headers; searchParams: URLSearchParams },
+) {
+  for (const requirement of requirements) {
+    const names = Object.keys(requirement);
+
+    if (!names.every((name) => providerMap.has(name))) {
+      continue;
+    }
+
+    const resolved = await Promise.all(names.map(async (name) => {
+      const provider = providerMap.get(name)!;
+      return { scheme: provider.scheme.scheme, credentials: await provider.provide() };
+    }));
+
+    if (resolved.every(({ credentials }) => credentials !== undefined)) {
+      for (const { scheme, credentials } of resolved) {
+        applySecurityCredentials(scheme, credentials, target);
+      }
+
+      return;
+    }
+  }
+}
+
+async function openapiFetch(
+  { baseUrl, pathTemplate, method, request, endpoint, securityProviderMap, securityRequirements, codec }: {
+    baseUrl: string;
+    pathTemplate: string;
+    method: ZodRouteConfig["method"];
+    request?: OpenapiClientRequestContext;
+    endpoint: OpenapiEndpoint;
+    securityProviderMap: Map<string, AnyOpenapiSecurityCredentialsProvider>;
+    securityRequirements?: SecurityRequirementObject[];
+    codec: OpenapiJsonCodec;
+  },
+): Promise<ClientResponse> {
+  const searchParams = toUrlSearchParams(request?.query ?? {}, endpoint.request.query);
+  const requestPath = renderPath(pathTemplate, request?.params, endpoint.request.params);
   const requestHeaders = new Headers(
     request?.headers !== undefined ? transformRecordToStringValues(request.headers) : undefined,
   );
 
+  if (request?.cookies !== undefined) {
+    requestHeaders.set(
+      "cookie",
+      renderCookieHeader({
+        ...parseCookieHeader(requestHeaders.get("cookie")),
+        ...transformRecordToStringValues(request.cookies),
+      }),
+    );
+  }
+
+  const requirements = endpoint.config.security ?? securityRequirements;
+
+  if (requirements !== undefined && securityProviderMap.size > 0) {
+    await applySecurity(requirements, securityProviderMap, { headers: requestHeaders, searchParams });
+  }
+
+  const searchString = searchParams.toString();
+  const requestUrl = new URL(
+    `${baseUrl}${requestPath}${searchString.length > 0 ? `?${searchString}` : ""}`,
+  );
+
   const requestBody = request?.body;
+  let serializedRequestBody: BodyInit | undefined;
 
   if (requestBody !== undefined) {
-    requestHeaders.set("content-type", "application/json");
+    const bodySchemaMap = endpoint.request.body;
+    // Endpoints accepting multiple media types take a body discriminated by the media type
+    const { mediaType, data } = bodySchemaMap !== undefined && bodySchemaMap.size > 1
+      ? requestBody as { mediaType: string; data: unknown }
+      : { mediaType: bodySchemaMap?.keys().next().value ?? "application/json", data: requestBody };
+    const { body, contentType } = serializeRequestBody(mediaType, data);
+
+    if (contentType !== undefined) {
+      requestHeaders.set("content-type", contentType);
+    }
+
+    serializedRequestBody = body;
   }
 
   const responseBodyMap = endpoint.response.body;
@@ -169,7 +271,7 @@ async function openapiFetch({ baseUrl, pathTemplate, method, request, endpoint }
   const response = await fetch(requestUrl, {
     method: method.toUpperCase(),
     headers: requestHeaders,
-    body: requestBody !== undefined ? JSON.stringify(requestBody) : undefined,
+    body: serializedRequestBody,
   });
 
   const { status: responseStatus, headers: responseHeaders } = response;
@@ -180,8 +282,11 @@ async function openapiFetch({ baseUrl, pathTemplate, method, request, endpoint }
   }
 
   let responseBody;
+  const isJsonBody = responseContentType !== null && isJsonMediaType(responseContentType);
 
-  if (responseContentType === "application/json") {
+  if (method === "head") {
+    responseBody = undefined;
+  } else if (isJsonBody) {
     responseBody = await response.json();
   } else if (responseContentType?.startsWith("text/")) {
     responseBody = await response.text();
@@ -196,6 +301,14 @@ async function openapiFetch({ baseUrl, pathTemplate, method, request, endpoint }
   const schemas = responseBodyMap.get(responseStatus)?.get(responseContentType);
 
   if (schemas === undefined) {
+    const problem = toMediaTypeEssence(responseContentType) === OPENAPI_PROBLEM_MEDIA_TYPE
+      ? OpenapiProblemDetailsSchema.safeParse(responseBody)
+      : undefined;
+
+    if (problem?.success) {
+      throw new OpenapiClientProblemError(problem.data, response);
+    }
+
     throw new OpenapiClientUnexpectedResponseError(responseBody, response);
   }
 
@@ -216,8 +329,14 @@ async function openapiFetch({ baseUrl, pathTemplate, method, request, endpoint }
     )
     : responseHeaders;
 
+  if (method === "head") {
+    return new ClientResponse(responseStatus, responseContentType, undefined, response, validatedResponseHeaders);
+  }
+
   if (responseBodySchema) {
-    const validation = responseBodySchema.safeParse(responseBody);
+    const validation = responseBodySchema.safeParse(
+      isJsonBody ? codec.decode(responseBody, responseBodySchema) : responseBody,
+    );
 
     if (validation.success) {
       return new ClientResponse(
@@ -238,10 +357,29 @@ async function openapiFetch({ baseUrl, pathTemplate, method, request, endpoint }
 export class OpenapiClient<R> {
   private endpoints: OpenapiEndpoints<R>;
   private baseUrl: string;
-
-  constructor({ baseUrl, endpoints }: { baseUrl: string; endpoints: OpenapiEndpoints<R> }) {
+  private securityProviderMap: Map<string, AnyOpenapiSecurityCredentialsProvider>;
+  private securityRequirements?: SecurityRequirementObject[];
+  private codec: OpenapiJsonCodec;
+
+  constructor({ baseUrl, endpoints, security, securityRequirements, codec = defaultOpenapiJsonCodec }: {
+    baseUrl: string;
+    endpoints: OpenapiEndpoints<R>;
+    security?: AnyOpenapiSecurityCredentialsProvider[];
+    /**
+     * The security requirements applied to every endpoint which does not declare its own `security`,
+     * matching the default requirements of the router
+     */
+    securityRequirements?: SecurityRequirementObject[];
+    /**
+     * Decodes the JSON bodies of the responses from the wire format of their schemas, matching the one of the router
+     */
+    codec?: OpenapiJsonCodec;
+  }) {
     this.baseUrl = baseUrl;
+    this.codec = codec;
     this.endpoints = endpoints;
+    this.securityProviderMap = new Map(security?.map((provider) => [provider.scheme.name, provider]));
+    this.securityRequirements = securityRequirements;
   }
 
   endpoint<
@@ -261,6 +399,9 @@ export class OpenapiClient<R> {
       method,
       request,
       endpoint,
+      securityProviderMap: this.securityProviderMap,
+      securityRequirements: this.securityRequirements,
+      codec: this.codec,
     });
   }
 
@@ -308,4 +449,37 @@ export class OpenapiClient<R> {
   >(path: P, request: Req) {
     return this.endpoint("delete", path, request) as Promise<Res>;
   }
+
+  /**
+   * The responses to `HEAD` requests have no body, only their status and headers are validated
+   */
+  head<
+    E extends ExtractEndpointPaths<"head", R>,
+    P extends Extract<keyof E, string>,
+    Req extends ExtractClientRequestArg<E[P]>,
+    Res extends WithoutData<ExtractClientResponseArg<E[P]>>,
+  >(path: P, request: Req) {
+    return this.endpoint("head", path, request) as Promise<Res>;
+  }
+
+  options<
+    E extends ExtractEndpointPaths<"options", R>,
+    P extends Extract<keyof E, string>,
+    Req extends ExtractClientRequestArg<E[P]>,
+    Res extends ExtractClientResponseArg<E[P]>,
+  >(path: P, request: Req) {
+    return this.endpoint("options", path, request) as Promise<Res>;
+  }
+
+  /**
+   * Note that `fetch` implementations following the Fetch standard refuse to send `TRACE` requests
+   */
+  trace<
+    E extends ExtractEndpointPaths<"trace", R>,
+    P extends Extract<keyof E, string>,
+    Req extends ExtractClientRequestArg<E[P]>,
+    Res extends ExtractClientResponseArg<E[P]>,
+  >(path: P, request: Req) {
+    return this.endpoint("trace", path, request) as Promise<Res>;
+  }
 }
@@ -0,0 +1,25 @@
+import { ZodType } from "./zod.ts";
+import { decodeJsonValue, encodeJsonValue } from "./runtime/codec.ts";
+
+/**
+ * Converts the values of JSON bodies to and from their wire format, according to the schemas declaring them
+ */
+export interface OpenapiJsonCodec {
+  /**
+   * Turns a value matching the output of the schema into a JSON-serializable one, used by the router for the responses
+   */
+  encode(value: unknown, schema: ZodType | undefined): unknown;
+  /**
+   * Turns a value parsed from JSON into what the input of the schema accepts, used by the client for the responses
+   */
+  decode(value: unknown, schema: ZodType | undefined): unknown;
+}
+
+/**
+ * Dates are ISO 8601 strings, bigints strings, sets arrays, and maps either objects or arrays of entries
+ * depending on their keys, as described in the generated document
+ */
+export const defaultOpenapiJsonCodec: OpenapiJsonCodec = {
+  encode: encodeJsonValue,
+  decode: decodeJsonValue,
+};
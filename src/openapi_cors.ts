@@ -0,0 +1,23 @@
+export interface OpenapiCorsPolicy {
+  /**
+   * Whether the browser may send credentials (cookies, authorization) along with the requests
+   */
+  credentials?: boolean;
+  /**
+   * How long, in seconds, the browser may cache the answer to a preflight request
+   */
+  maxAge?: number;
+}
+
+/**
+ * Either any origin, a list of allowed origins or a function deciding per origin,
+ * which can return a specific policy for it
+ */
+export type OpenapiCorsOrigin =
+  | "*"
+  | string[]
+  | ((origin: string, request: Request) => OpenapiCorsPolicy | boolean | undefined);
+
+export interface OpenapiCorsOptions extends OpenapiCorsPolicy {
+  origin: OpenapiCorsOrigin;
+}
@@ -1,25 +1,31 @@
-import { ZodRouteConfig } from "./openapi_registry.ts";
+import { ZodResponseConfig, ZodRouteConfig } from "./openapi_registry.ts";
 import {
-  extractRequestBodySchema,
+  extractRequestBodySchemaMap,
+  extractRequestCookiesSchema,
+  extractRequestHeadersSchema,
   extractRequestParamsSchema,
   extractRequestQuerySchema,
+  OpenapiRequestParamKeySchema,
   OpenapiRequestQueryKeySchema,
+  RequestBodySchemaMap,
 } from "./runtime/request.ts";
 import { extractResponseSchemaMap, ResponseSchemaMap } from "./runtime/response.ts";
 import type {
   ExtractRequestBodyType,
+  ExtractRequestCookiesType,
   ExtractRequestHeadersType,
   ExtractRequestParamsType,
   ExtractRequestQueryType,
+  ExtractSecurityRequirementType,
 } from "./types/request.ts";
 import { ResponseBodyByStatusAndMediaMap } from "./types/response_body.ts";
 import { ResponseHeaderMapByStatusMap } from "./types/response_headers.ts";
 import { MaybeRecord, OpenapiRouteConfig, Simplify } from "./types/shared.ts";
 import { TypedResponseUnion } from "./types/typed_response.ts";
-import { ZodType } from "./zod.ts";
+import { z, ZodType } from "./zod.ts";
 
 export type OpenapiJsonRouteConfig<P extends string = string> =
-  & Pick<OpenapiRouteConfig, "method" | "summary" | "tags" | "description">
+  & Pick<OpenapiRouteConfig, "method" | "summary" | "tags" | "description" | "security">
   & {
     path: P;
     request?: Omit<NonNullable<OpenapiRouteConfig["request"]>, "body"> & {
@@ -35,14 +41,14 @@ export type OpenapiJsonRouteConfigToRouteConfig<P extends string, C extends Open
   & Omit<C, "request" | "response">
   & {
     request: Omit<NonNullable<C["request"]>, "body"> & {
-      body: NonNullable<C["request"]>["body"] extends undefined ? undefined
-        : {
+      body: NonNullable<C["request"]> extends { body: infer B extends ZodType } ? {
           content: {
             "application/json": {
-              schema: NonNullable<NonNullable<C["request"]>["body"]>;
+              schema: B;
             };
           };
-        };
+        }
+        : undefined;
     };
     responses: {
       200:
@@ -58,11 +64,10 @@ export type OpenapiJsonRouteConfigToRouteConfig<P extends string, C extends Open
   };
 
 export function jsonRouteConfigToRouteConfig(config: OpenapiJsonRouteConfig): OpenapiRouteConfig {
-  const { method, path, request, response: { body: responseBody, ...response } } = config;
+  const { request, response: { body: responseBody, ...response }, ...rest } = config;
 
   return {
-    method,
-    path,
+    ...rest,
     request: request
       ? {
         ...request,
@@ -92,13 +97,72 @@ export function jsonRouteConfigToRouteConfig(config: OpenapiJsonRouteConfig): Op
   };
 }
 
+/**
+ * The body of the 400 responses of the router's default validation error handler
+ */
+export const OpenapiRequestValidationErrorSchema = z.object({
+  message: z.string(),
+  source: z.enum(["params", "query", "headers", "cookies", "body"]),
+  errors: z.array(
+    z.object({
+      code: z.string(),
+      path: z.array(z.union([z.string(), z.number()])),
+      message: z.string(),
+    }).passthrough(),
+  ),
+});
+
+/**
+ * Declares the 400 response of the router's default validation error handler, to be used as a default response.
+ * It is rejected by a router with `problemDetails` enabled, which declares its problem details response instead.
+ */
+export const openapiRequestValidationErrorResponse = {
+  description: "The request is invalid",
+  content: {
+    "application/json": {
+      schema: OpenapiRequestValidationErrorSchema,
+    },
+  },
+} satisfies ZodResponseConfig;
+
+/**
+ * The body of the 500 responses the router falls back to when a request fails with an exception
+ */
+export const OpenapiInternalServerErrorSchema = z.object({
+  message: z.string(),
+});
+
+/**
+ * Declares the 500 response the router falls back to, to be used as a default response
+ */
+export const openapiInternalServerErrorResponse = {
+  description: "The request failed unexpectedly",
+  content: {
+    "application/json": {
+      schema: OpenapiInternalServerErrorSchema,
+    },
+  },
+} satisfies ZodResponseConfig;
+
+export type OpenapiDefaultResponses = NonNullable<OpenapiRouteConfig["responses"]>;
+
+/**
+ * The responses declared by an endpoint take precedence over the default ones with the same status
+ */
+export type OpenapiRouteConfigWithDefaultResponses<C extends OpenapiRouteConfig, D extends OpenapiDefaultResponses> =
+  keyof D extends never ? C
+    : Omit<C, "responses"> & {
+      responses: Simplify<Omit<D, keyof NonNullable<C["responses"]>> & NonNullable<C["responses"]>>;
+    };
+
 export interface OpenapiEndpoint {
   config: OpenapiRouteConfig<string>;
   request: {
     query?: OpenapiRequestQueryKeySchema[];
-    params?: [string, ZodType][];
+    params?: OpenapiRequestParamKeySchema[];
     headers?: [string, ZodType][];
-    body?: ZodType;
+    cookies?: [string, ZodType][];
+    body?: RequestBodySchemaMap;
   };
   response: {
     body?: ResponseSchemaMap;
@@ -113,18 +177,24 @@ export type OpenapiEndpointTypeBag<
   RT = unknown,
   RB = unknown,
   RH = unknown,
+  SR = unknown,
+  QC extends MaybeRecord = MaybeRecord,
 > = {
   request: {
     params: QP;
     query: QQ;
     headers: QH;
     body: QB;
+    cookies: QC;
   };
   response: {
     type: RT;
     bodyByStatusAndMediaMap: RB;
     headerMapByStatusMap: RH;
   };
+  security: {
+    requirement: SR;
+  };
 };
 
 export type OpenapiExtractEndpointTypeBag<E, M extends ZodRouteConfig["method"], P extends ZodRouteConfig["path"]> =
@@ -133,8 +203,14 @@ export type OpenapiExtractEndpointTypeBag<E, M extends ZodRouteConfig["method"],
     : never
     : never;
 
-export class OpenapiEndpoints<R> {
-  static merge<A, B>(left: OpenapiEndpoints<A>, right: OpenapiEndpoints<B>): OpenapiEndpoints<A & B> {
+export class OpenapiEndpoints<R, D extends OpenapiDefaultResponses = Record<never, never>> {
+  /**
+   * Merges the endpoints of both, the endpoints declared afterwards get the default responses of the left one
+   */
+  static merge<A, B, D extends OpenapiDefaultResponses = Record<never, never>>(
+    left: OpenapiEndpoints<A, D>,
+    right: OpenapiEndpoints<B, OpenapiDefaultResponses>,
+  ): OpenapiEndpoints<A & B, D> {
     const leftMap = left.endpointByPathByMethodMap;
     const rightMap = right.endpointByPathByMethodMap;
     const mergedMap = new Map<string, Map<string, OpenapiEndpoint>>();
@@ -159,16 +235,33 @@ export class OpenapiEndpoints<R> {
       }
     }
 
-    return new OpenapiEndpoints(mergedMap);
+    const merged = new OpenapiEndpoints<A & B, D>(mergedMap);
+    merged.defaultResponses = { ...left.defaultResponses };
+
+    return merged;
   }
 
-  merge<E>(other: OpenapiEndpoints<E>): OpenapiEndpoints<R & E> {
+  merge<E>(other: OpenapiEndpoints<E, OpenapiDefaultResponses>): OpenapiEndpoints<R & E, D> {
     return OpenapiEndpoints.merge(this, other);
   }
 
+  private defaultResponses: OpenapiDefaultResponses = {};
+
   constructor(public readonly endpointByPathByMethodMap: Map<string, Map<string, OpenapiEndpoint>> = new Map()) {
   }
 
+  /**
+   * Declares responses, such as the error ones, which every endpoint declared afterwards can return.
+   * Like `endpoint()`, it updates these endpoints in place and returns them.
+   */
+  withDefaultResponses<const N extends OpenapiDefaultResponses>(
+    responses: N,
+  ): OpenapiEndpoints<R, Simplify<Omit<D, keyof N> & N>> {
+    this.defaultResponses = { ...this.defaultResponses, ...responses };
+
+    return this;
+  }
+
   get(path: string, method: string): OpenapiEndpoint | undefined {
     if (this.endpointByPathByMethodMap.has(path)) {
       return this.endpointByPathByMethodMap.get(path)!.get(method);
@@ -182,31 +275,43 @@ export class OpenapiEndpoints<R> {
     return this.endpoint(config);
   }
 
-  endpoint<P extends string, C extends OpenapiRouteConfig<P>>(
-    config: C,
+  endpoint<
+    P extends string,
+    C extends OpenapiRouteConfig<P>,
+    CD extends OpenapiRouteConfig<P> = OpenapiRouteConfigWithDefaultResponses<C, D>,
+  >(
+    routeConfig: C,
   ): OpenapiEndpoints<
     & R
     & {
       [m in C["method"]]: {
         [p in C["path"]]: OpenapiEndpointTypeBag<
-          Simplify<ExtractRequestParamsType<C>>,
-          Simplify<ExtractRequestQueryType<C>>,
-          Simplify<ExtractRequestHeadersType<C>>,
-          Simplify<ExtractRequestBodyType<C>>,
-          TypedResponseUnion<C>,
-          ResponseBodyByStatusAndMediaMap<C>,
-          ResponseHeaderMapByStatusMap<C>
+          Simplify<ExtractRequestParamsType<CD>>,
+          Simplify<ExtractRequestQueryType<CD>>,
+          Simplify<ExtractRequestHeadersType<CD>>,
+          Simplify<ExtractRequestBodyType<CD>>,
+          TypedResponseUnion<CD>,
+          ResponseBodyByStatusAndMediaMap<CD>,
+          ResponseHeaderMapByStatusMap<CD>,
+          ExtractSecurityRequirementType<CD>,
+          Simplify<ExtractRequestCookiesType<CD>>
         >;
       };
-    }
+    },
+    D
   > {
+    const config: OpenapiRouteConfig<P> = Object.keys(this.defaultResponses).length > 0
+      ? { ...routeConfig, responses: { ...this.defaultResponses, ...routeConfig.responses } }
+      : routeConfig;
+
     const endpoint: OpenapiEndpoint = {
       config,
       request: {
         query: extractRequestQuerySchema(config),
         params: extractRequestParamsSchema(config),
-        headers: extractRequestParamsSchema(config),
-        body: extractRequestBodySchema(config),
+        headers: extractRequestHeadersSchema(config),
+        cookies: extractRequestCookiesSchema(config),
+        body: extractRequestBodySchemaMap(config),
       },
       response: {
         body: extractResponseSchemaMap(config),
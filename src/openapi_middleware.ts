@@ -0,0 +1,73 @@
+import { OpenapiRouteConfig } from "./types/shared.ts";
+
+export type OpenapiMiddlewareState = Record<string, unknown>;
+
+// deno-lint-ignore ban-types
+export type OpenapiEmptyMiddlewareState = {};
+
+type MaybePromise<T> = Promise<T> | T;
+
+export interface OpenapiMiddlewareContext<S> {
+  url: URL;
+  request: Request;
+  connInfo: Deno.ServeHandlerInfo;
+  /**
+   * The path template of the matched route, e.g. `/users/{id}`
+   */
+  path: string;
+  config: OpenapiRouteConfig<string>;
+  state: S;
+}
+
+/**
+ * Continues down the pipeline, merging the given additions into the state
+ * seen by the subsequent middlewares and the route handler
+ */
+export type OpenapiMiddlewareNext<A extends OpenapiMiddlewareState = OpenapiEmptyMiddlewareState> = (
+  ...args: keyof A extends never ? [additions?: A] : [additions: A]
+) => Promise<Response>;
+
+export type OpenapiMiddleware<S, A extends OpenapiMiddlewareState = OpenapiEmptyMiddlewareState> = (
+  ctx: OpenapiMiddlewareContext<S>,
+  next: OpenapiMiddlewareNext<A>,
+) => MaybePromise<Response>;
+
+/**
+ * Combines two middlewares into one, the second one sees the state additions made by the first one
+ */
+export function composeMiddlewares<
+  S,
+  A extends OpenapiMiddlewareState,
+  B extends OpenapiMiddlewareState,
+>(first: OpenapiMiddleware<S, A>, second: OpenapiMiddleware<S & A, B>): OpenapiMiddleware<S, A & B> {
+  return (ctx, next) => {
+    const continueWith = next as (additions: A & B) => Promise<Response>;
+    const firstNext = (additions?: A) => {
+      const state = { ...ctx.state, ...additions } as S & A;
+      const secondNext = (moreAdditions?: B) => continueWith({ ...additions, ...moreAdditions } as A & B);
+
+      return Promise.resolve(second({ ...ctx, state }, secondNext as OpenapiMiddlewareNext<B>));
+    };
+
+    return first(ctx, firstNext as OpenapiMiddlewareNext<A>);
+  };
+}
+
+export function runMiddlewares(
+  middlewares: OpenapiMiddleware<unknown, OpenapiMiddlewareState>[],
+  ctx: OpenapiMiddlewareContext<OpenapiMiddlewareState>,
+  handle: (state: OpenapiMiddlewareState) => Promise<Response>,
+): Promise<Response> {
+  const dispatch = async (index: number, state: OpenapiMiddlewareState): Promise<Response> => {
+    if (index === middlewares.length) {
+      return handle(state);
+    }
+
+    const middleware = middlewares[index];
+    const next = (additions?: OpenapiMiddlewareState) => dispatch(index + 1, { ...state, ...additions });
+
+    return await middleware({ ...ctx, state }, next);
+  };
+
+  return dispatch(0, ctx.state);
+}
@@ -0,0 +1,26 @@
+import { z } from "./zod.ts";
+
+export const OPENAPI_PROBLEM_MEDIA_TYPE = "application/problem+json";
+
+/**
+ * The RFC 9457 problem details, which may carry extension members such as the validation `errors`
+ */
+export const OpenapiProblemDetailsSchema = z.object({
+  type: z.string().optional(),
+  title: z.string().optional(),
+  status: z.number().int().optional(),
+  detail: z.string().optional(),
+  instance: z.string().optional(),
+}).passthrough();
+
+export type OpenapiProblemDetails = z.infer<typeof OpenapiProblemDetailsSchema>;
+
+export function createProblemResponse(problem: OpenapiProblemDetails & { status: number }, headers?: HeadersInit) {
+  const responseHeaders = new Headers(headers);
+  responseHeaders.set("Content-Type", OPENAPI_PROBLEM_MEDIA_TYPE);
+
+  return new Response(JSON.stringify(problem, null, 2), {
+    status: problem.status,
+    headers: responseHeaders,
+  });
+}
@@ -18,8 +18,9 @@ import {
 } from "./types/spec/openapi.ts";
 import type { ZodSchema, ZodType } from "./zod.ts";
 import { ISpecificationExtension } from "./types/spec/specification_extensions.ts";
+import { OpenapiSecurityScheme, OpenapiSecuritySchemeObject } from "./openapi_security.ts";
 
-type Method = "get" | "post" | "put" | "delete" | "patch";
+type Method = "get" | "post" | "put" | "delete" | "patch" | "head" | "options" | "trace";
 
 export interface ZodMediaTypeObject {
   schema: ZodType<unknown> | SchemaObject | ReferenceObject;
@@ -64,12 +65,18 @@ export interface ZodRouteConfig extends OperationObject {
     params?: Record<string, ZodType>;
     query?: Record<string, ZodType>;
     headers?: Record<string, ZodType>;
+    cookies?: Record<string, ZodType>;
   };
   responses: {
     [statusCode: string]: ZodResponseConfig;
   };
 }
 
+/**
+ * A webhook is described like a route, without a path since it is requested by the API rather than served by it
+ */
+export type ZodWebhookConfig = Omit<ZodRouteConfig, "path">;
+
 export type OpenapiComponentObject =
   | SchemaObject
   | ResponseObject
@@ -96,7 +103,11 @@ export type OpenapiDefinitions =
   }
   | { type: "schema"; schema: ZodSchema<any> }
   | { type: "parameter"; schema: ZodSchema<any> }
-  | { type: "route"; route: ZodRouteConfig };
+  | { type: "response"; name: string; response: ZodResponseConfig }
+  | { type: "requestBody"; name: string; requestBody: ZodRequestBody }
+  | { type: "header"; name: string; header: ZodResponseHeaderObject }
+  | { type: "route"; route: ZodRouteConfig }
+  | { type: "webhook"; name: string; webhook: ZodWebhookConfig };
 
 export class OpenapiRegistry {
   private _definitions: OpenapiDefinitions[] = [];
@@ -148,6 +159,36 @@ export class OpenapiRegistry {
     return schemaWithMetadata;
   }
 
+  /**
+   * Registers a new response under /components/responses/${name}. The returned response is
+   * referenced wherever it is used in the `responses` of the routes, keeping its full type.
+   */
+  registerResponse<const T extends ZodResponseConfig>(name: string, response: T): T {
+    this._definitions.push({ type: "response", name, response });
+
+    return response;
+  }
+
+  /**
+   * Registers a new request body under /components/requestBodies/${name}. The returned request body is
+   * referenced wherever it is used as the `request.body` of the routes, keeping its full type.
+   */
+  registerRequestBody<const T extends ZodRequestBody>(name: string, requestBody: T): T {
+    this._definitions.push({ type: "requestBody", name, requestBody });
+
+    return requestBody;
+  }
+
+  /**
+   * Registers a new response header under /components/headers/${name}. The returned header is
+   * referenced wherever it is used in the `headers` of the responses, keeping its full type.
+   */
+  registerHeader<const T extends ZodResponseHeaderObject>(name: string, header: T): T {
+    this._definitions.push({ type: "header", name, header });
+
+    return header;
+  }
+
   /**
    * Registers a new path that would be generated under paths:
    */
@@ -158,6 +199,33 @@ export class OpenapiRegistry {
     });
   }
 
+  /**
+   * Registers a new webhook that would be generated under webhooks:, only in OpenAPI 3.1 documents
+   */
+  registerWebhook(name: string, webhook: ZodWebhookConfig) {
+    this._definitions.push({
+      type: "webhook",
+      name,
+      webhook,
+    });
+  }
+
+  /**
+   * Registers a new security scheme under /components/securitySchemes/${name}.
+   * The returned scheme is used to create security requirements for endpoints,
+   * verifiers for the router and credentials providers for the client.
+   */
+  registerSecurityScheme<N extends string, const T extends OpenapiSecuritySchemeObject>(name: N, scheme: T) {
+    this._definitions.push({
+      type: "component",
+      componentType: "securitySchemes",
+      name,
+      component: scheme,
+    });
+
+    return new OpenapiSecurityScheme(name, scheme);
+  }
+
   /**
    * Registers a raw Openapi component. Use this if you have a simple object instead of a Zod schema.
    *
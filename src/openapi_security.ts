@@ -0,0 +1,124 @@
+// deno-lint-ignore-file no-explicit-any
+import { OAuthFlowsObject, ReferenceObject } from "./types/spec/openapi.ts";
+import { ISpecificationExtension } from "./types/spec/specification_extensions.ts";
+
+type MaybePromise<T> = Promise<T> | T;
+
+export type OpenapiSecuritySchemeObject =
+  & ISpecificationExtension
+  & (
+    | {
+      type: "http";
+      scheme: string;
+      bearerFormat?: string;
+      description?: string;
+    }
+    | {
+      type: "apiKey";
+      in: "header" | "query" | "cookie";
+      name: string;
+      description?: string;
+    }
+    | {
+      type: "oauth2";
+      flows: OAuthFlowsObject;
+      description?: string;
+    }
+    | {
+      type: "openIdConnect";
+      openIdConnectUrl: string;
+      description?: string;
+    }
+  );
+
+export type OpenapiSecurityCredentials<T extends OpenapiSecuritySchemeObject> = T extends
+  { type: "http"; scheme: "basic" } ? { username: string; password: string }
+  : T extends { type: "apiKey" } ? { key: string }
+  : { token: string };
+
+export type OpenapiAnySecurityCredentials =
+  | { username: string; password: string }
+  | { key: string }
+  | { token: string };
+
+export type OpenapiSecurityRequirement<N extends string> = { [K in N]: string[] };
+
+export interface OpenapiSecurityVerifyContext {
+  url: URL;
+  request: Request;
+  /**
+   * The scopes listed for this scheme in the matched security requirement
+   */
+  scopes: string[];
+}
+
+/**
+ * Resolves the credentials to a principal. Returning `undefined` rejects the credentials,
+ * returning a `Response` short-circuits the request with it (e.g. a 403 for insufficient scopes).
+ */
+export type OpenapiSecurityVerify<T extends OpenapiSecuritySchemeObject, P> = (
+  credentials: OpenapiSecurityCredentials<T>,
+  ctx: OpenapiSecurityVerifyContext,
+) => MaybePromise<P | Response | undefined>;
+
+export interface OpenapiSecurityVerifier<N extends string, T extends OpenapiSecuritySchemeObject, P> {
+  scheme: OpenapiSecurityScheme<N, T>;
+  verify: OpenapiSecurityVerify<T, P>;
+}
+
+export interface OpenapiSecurityCredentialsProvider<N extends string, T extends OpenapiSecuritySchemeObject> {
+  scheme: OpenapiSecurityScheme<N, T>;
+  provide: () => MaybePromise<OpenapiSecurityCredentials<T> | undefined>;
+}
+
+export class OpenapiSecurityScheme<N extends string, T extends OpenapiSecuritySchemeObject> {
+  constructor(readonly name: N, readonly scheme: T) {}
+
+  get ref(): ReferenceObject {
+    return { $ref: `#/components/securitySchemes/${this.name}` };
+  }
+
+  /**
+   * Creates a security requirement object to be used in the `security` list of an endpoint
+   */
+  requirement(...scopes: string[]): OpenapiSecurityRequirement<N> {
+    return { [this.name]: scopes } as OpenapiSecurityRequirement<N>;
+  }
+
+  /**
+   * Creates a server-side verifier for this scheme, to be passed to the `OpenapiRouter`
+   */
+  verifier<P>(verify: OpenapiSecurityVerify<T, P>): OpenapiSecurityVerifier<N, T, P> {
+    return { scheme: this, verify };
+  }
+
+  /**
+   * Creates a client-side credentials provider for this scheme, to be passed to the `OpenapiClient`
+   */
+  credentials(provide: OpenapiSecurityCredentialsProvider<N, T>["provide"]): OpenapiSecurityCredentialsProvider<N, T> {
+    return { scheme: this, provide };
+  }
+}
+
+export type AnyOpenapiSecurityVerifier = OpenapiSecurityVerifier<string, any, unknown>;
+
+type PrincipalOf<V> = V extends OpenapiSecurityVerifier<any, any, infer P> ? P : never;
+
+export type OpenapiSecurityPrincipalMap<V extends AnyOpenapiSecurityVerifier[]> = {
+  [N in V[number]["scheme"]["name"]]: PrincipalOf<Extract<V[number], { scheme: { name: N } }>>;
+};
+
+type AuthFromRequirements<SR, PM> = SR extends unknown ? {
+    [K in keyof SR]: K extends keyof PM ? PM[K] : unknown;
+  }
+  : never;
+
+/**
+ * The type of the `auth` principal seen by a handler: one record of principals, keyed by scheme name,
+ * for each alternative security requirement of the endpoint (or the router's default ones
+ * when the endpoint does not declare any)
+ */
+export type OpenapiAuthType<SR, PM, D> = unknown extends SR
+  ? ([D] extends [never] ? undefined : AuthFromRequirements<D, PM>)
+  : [SR] extends [never] ? undefined
+  : AuthFromRequirements<SR, PM>;
@@ -0,0 +1,1623 @@
+import {
+  HttpError,
+  OpenapiRouter,
+  OpenapiServerResponseValidationError,
+  OpenapiSetCookieAttributes,
+  ServerResponse,
+} from "./openapi_server.ts";
+import {
+  OpenapiEndpoints,
+  openapiRequestValidationErrorResponse,
+  OpenapiRequestValidationErrorSchema,
+} from "./openapi_endpoint.ts";
+import { OpenapiRegistry } from "./openapi_registry.ts";
+import { OpenapiMiddleware } from "./openapi_middleware.ts";
+import { OpenapiClient, OpenapiClientProblemError } from "./openapi_client.ts";
+import { z } from "./zod.ts";
+import { zsBigInt, zsBoolean, zsDate, zsNumber } from "./lib/zod_string_like.ts";
+import { assertEquals } from "https://deno.land/std@0.200.0/assert/assert_equals.ts";
+
+const connInfo = {
+  remoteAddr: { transport: "tcp", hostname: "127.0.0.1", port: 12345 },
+} as Deno.ServeHandlerInfo;
+
+function createEndpoints() {
+  return new OpenapiEndpoints()
+    .endpoint({
+      method: "get",
+      path: "/healthz",
+      responses: {
+        200: {
+          description: "OK",
+          content: {
+            "text/plain": {
+              schema: z.string(),
+            },
+          },
+        },
+      },
+    })
+    .endpoint({
+      method: "get",
+      path: "/users/{id}",
+      request: {
+        params: {
+          id: zsNumber(z.number().int()),
+        },
+      },
+      responses: {
+        200: {
+          description: "The user",
+          content: {
+            "application/json": {
+              schema: z.object({ id: z.number(), requestedBy: z.string() }),
+            },
+          },
+        },
+      },
+    });
+}
+
+Deno.test("Middlewares run in order, enrich the state and can short-circuit", async () => {
+  const calls: string[] = [];
+
+  const auth: OpenapiMiddleware<{ requestId: string }, { user: string }> = (ctx, next) => {
+    calls.push(`auth ${ctx.path} ${ctx.state.requestId}`);
+
+    const user = ctx.request.headers.get("x-user");
+
+    if (!user) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    return next({ user });
+  };
+
+  const router = new OpenapiRouter({ endpoints: createEndpoints(), registry: new OpenapiRegistry() })
+    .use<{ requestId: string }>(async ({ config }, next) => {
+      calls.push(`requestId ${config.method}`);
+      const response = await next({ requestId: "abc" });
+      response.headers.set("x-request-id", "abc");
+      return response;
+    })
+    .get("/healthz", ({ state }, respond) => {
+      calls.push("healthz");
+      return respond(200, "text/plain")(state.requestId);
+    })
+    .get("/users/{id}", ({ params, state }, respond) => {
+      calls.push("user");
+      return respond(200, "application/json")({ id: params.id, requestedBy: state.user });
+    }, { middleware: auth });
+
+  const healthz = await router.handle(new Request("http://localhost/healthz"), connInfo);
+  assertEquals(healthz.status, 200);
+  assertEquals(healthz.headers.get("x-request-id"), "abc");
+  assertEquals(await healthz.text(), "abc");
+
+  const unauthorized = await router.handle(new Request("http://localhost/users/1"), connInfo);
+  assertEquals(unauthorized.status, 401);
+  assertEquals(unauthorized.headers.get("x-request-id"), "abc");
+  await unauthorized.body?.cancel();
+
+  const user = await router.handle(
+    new Request("http://localhost/users/1", { headers: { "x-user": "jacky" } }),
+    connInfo,
+  );
+  assertEquals(user.status, 200);
+  assertEquals(await user.json(), { id: 1, requestedBy: "jacky" });
+
+  assertEquals(calls, [
+    "requestId get",
+    "healthz",
+    "requestId get",
+    "auth /users/{id} abc",
+    "requestId get",
+    "auth /users/{id} abc",
+    "user",
+  ]);
+});
+
+Deno.test("Security requirements are enforced by the verifiers and exposed as auth", async () => {
+  const registry = new OpenapiRegistry();
+  const bearerAuth = registry.registerSecurityScheme("bearerAuth", { type: "http", scheme: "bearer" });
+  const apiKeyAuth = registry.registerSecurityScheme("apiKeyAuth", { type: "apiKey", in: "query", name: "api_key" });
+
+  const endpoints = new OpenapiEndpoints()
+    .endpoint({
+      method: "get",
+      path: "/me",
+      security: [bearerAuth.requirement("profile"), apiKeyAuth.requirement()],
+      responses: {
+        200: {
+          description: "The principal",
+          content: {
+            "text/plain": {
+              schema: z.string(),
+            },
+          },
+        },
+      },
+    })
+    .endpoint({
+      method: "get",
+      path: "/public",
+      security: [],
+      responses: {
+        200: {
+          description: "Anyone",
+          content: {
+            "text/plain": {
+              schema: z.string(),
+            },
+          },
+        },
+      },
+    });
+
+  const router = new OpenapiRouter({
+    endpoints,
+    registry,
+    security: {
+      verifiers: [
+        bearerAuth.verifier(({ token }, { scopes }) => {
+          if (token !== "secret") {
+            return;
+          }
+          return scopes.includes("profile") ? { user: "jacky" } : new Response("Forbidden", { status: 403 });
+        }),
+        apiKeyAuth.verifier(({ key }) => key === "key" ? { service: "cron" } : undefined),
+      ],
+      requirements: [bearerAuth.requirement()],
+    },
+  })
+    .get("/me", ({ auth }, respond) => {
+      return respond(200, "text/plain")("bearerAuth" in auth ? auth.bearerAuth.user : auth.apiKeyAuth.service);
+    })
+    .get("/public", ({ auth }, respond) => respond(200, "text/plain")(String(auth)));
+
+  const unauthorized = await router.handle(new Request("http://localhost/me"), connInfo);
+  assertEquals(unauthorized.status, 401);
+  assertEquals(unauthorized.headers.get("www-authenticate"), "Bearer");
+  assertEquals(await unauthorized.json(), { message: "Unauthorized" });
+
+  const bearer = await router.handle(
+    new Request("http://localhost/me", { headers: { authorization: "Bearer secret" } }),
+    connInfo,
+  );
+  assertEquals(await bearer.text(), "jacky");
+
+  const apiKey = await router.handle(new Request("http://localhost/me?api_key=key"), connInfo);
+  assertEquals(await apiKey.text(), "cron");
+
+  const anonymous = await router.handle(new Request("http://localhost/public"), connInfo);
+  assertEquals(await anonymous.text(), "undefined");
+
+  const docs = await router.handle(new Request("http://localhost/docs/openapi"), connInfo);
+  const document = await docs.json();
+
+  assertEquals(document.security, [{ bearerAuth: [] }]);
+  assertEquals(document.components.securitySchemes, {
+    bearerAuth: { type: "http", scheme: "bearer" },
+    apiKeyAuth: { type: "apiKey", in: "query", name: "api_key" },
+  });
+  assertEquals(document.paths["/me"].get.security, [{ bearerAuth: ["profile"] }, { apiKeyAuth: [] }]);
+  assertEquals(document.paths["/public"].get.security, []);
+});
+
+Deno.test("The client sends credentials only to the endpoints requiring them", async () => {
+  const registry = new OpenapiRegistry();
+  const bearerAuth = registry.registerSecurityScheme("bearerAuth", { type: "http", scheme: "bearer" });
+  const apiKeyAuth = registry.registerSecurityScheme("apiKeyAuth", { type: "apiKey", in: "query", name: "api_key" });
+  const responses = { 200: { description: "Done", content: { "text/plain": { schema: z.string() } } } };
+
+  const endpoints = new OpenapiEndpoints()
+    .endpoint({ method: "get", path: "/me", security: [bearerAuth.requirement()], responses })
+    .endpoint({ method: "get", path: "/public", security: [], responses })
+    .endpoint({ method: "get", path: "/undeclared", responses });
+
+  const security = [
+    bearerAuth.credentials(() => ({ token: "secret" })),
+    apiKeyAuth.credentials(() => ({ key: "key" })),
+  ];
+  const sent: string[] = [];
+  const fetch = globalThis.fetch;
+  globalThis.fetch = (input, init) => {
+    const request = new Request(input, init);
+    sent.push(`${new URL(request.url).search} ${request.headers.get("authorization")}`);
+    return Promise.resolve(new Response("done", { headers: { "content-type": "text/plain" } }));
+  };
+
+  try {
+    const client = new OpenapiClient({ baseUrl: "http://localhost", endpoints, security });
+    await client.get("/me", {});
+    await client.get("/public", {});
+    await client.get("/undeclared", {});
+
+    const defaulted = new OpenapiClient({
+      baseUrl: "http://localhost",
+      endpoints,
+      security,
+      securityRequirements: [apiKeyAuth.requirement()],
+    });
+    await defaulted.get("/public", {});
+    await defaulted.get("/undeclared", {});
+  } finally {
+    globalThis.fetch = fetch;
+  }
+
+  assertEquals(sent, [" Bearer secret", " null", " null", " null", "?api_key=key null"]);
+});
+
+Deno.test("Request bodies are parsed and validated according to their media type", async () => {
+  const registry = new OpenapiRegistry();
+  const endpoints = new OpenapiEndpoints()
+    .endpoint({
+      method: "post",
+      path: "/uploads",
+      request: {
+        body: {
+          content: {
+            "application/json": {
+              schema: z.object({ name: z.string(), tags: z.array(z.string()) }),
+            },
+            "multipart/form-data": {
+              schema: z.object({ name: z.string(), tags: z.array(z.string()), file: z.instanceof(File) }),
+            },
+            "application/x-www-form-urlencoded": {
+              schema: z.object({ name: z.string(), tags: z.array(z.string()) }),
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          description: "The upload",
+          content: {
+            "application/json": {
+              schema: z.object({
+                mediaType: z.string(),
+                name: z.string(),
+                tags: z.array(z.string()),
+                size: z.number(),
+              }),
+            },
+          },
+        },
+      },
+    });
+
+  const router = new OpenapiRouter({ endpoints, registry })
+    .post("/uploads", ({ body }, respond) => {
+      const { name, tags } = body.data;
+      const size = body.mediaType === "multipart/form-data" ? body.data.file.size : 0;
+      return respond(200, "application/json")({ mediaType: body.mediaType, name, tags, size });
+    });
+
+  const json = await router.handle(
+    new Request("http://localhost/uploads", {
+      method: "POST",
+      headers: { "content-type": "application/json; charset=utf-8" },
+      body: JSON.stringify({ name: "json", tags: ["a"] }),
+    }),
+    connInfo,
+  );
+  assertEquals(await json.json(), { mediaType: "application/json", name: "json", tags: ["a"], size: 0 });
+
+  const form = await router.handle(
+    new Request("http://localhost/uploads", {
+      method: "POST",
+      body: new URLSearchParams([["name", "form"], ["tags", "a"]]),
+    }),
+    connInfo,
+  );
+  assertEquals(await form.json(), {
+    mediaType: "application/x-www-form-urlencoded",
+    name: "form",
+    tags: ["a"],
+    size: 0,
+  });
+
+  const formData = new FormData();
+  formData.append("name", "multipart");
+  formData.append("tags", "a");
+  formData.append("tags", "b");
+  formData.append("file", new File(["hello"], "hello.txt", { type: "text/plain" }));
+
+  const multipart = await router.handle(
+    new Request("http://localhost/uploads", { method: "POST", body: formData }),
+    connInfo,
+  );
+  assertEquals(await multipart.json(), {
+    mediaType: "multipart/form-data",
+    name: "multipart",
+    tags: ["a", "b"],
+    size: 5,
+  });
+
+  const unsupported = await router.handle(
+    new Request("http://localhost/uploads", {
+      method: "POST",
+      headers: { "content-type": "application/xml" },
+      body: "<upload />",
+    }),
+    connInfo,
+  );
+  assertEquals(unsupported.status, 415);
+  assertEquals(
+    unsupported.headers.get("accept"),
+    "application/json, multipart/form-data, application/x-www-form-urlencoded",
+  );
+  await unsupported.body?.cancel();
+});
+
+Deno.test("Cookie parameters are validated and Set-Cookie headers are emitted", async () => {
+  const registry = new OpenapiRegistry();
+  const endpoints = new OpenapiEndpoints()
+    .endpoint({
+      method: "get",
+      path: "/preferences",
+      request: {
+        cookies: {
+          session: z.string(),
+          theme: z.enum(["light", "dark"]).optional(),
+        },
+      },
+      responses: {
+        200: {
+          description: "The preferences",
+          content: {
+            "application/json": {
+              schema: z.object({ session: z.string(), theme: z.string() }),
+            },
+          },
+        },
+      },
+    });
+
+  const router = new OpenapiRouter({ endpoints, registry })
+    .get("/preferences", ({ cookies }, respond) => {
+      return respond(200, "application/json")({ session: cookies.session, theme: cookies.theme ?? "light" })
+        .setCookie("theme", "dark mode", { path: "/", maxAge: 3600, httpOnly: true, sameSite: "Lax" })
+        .deleteCookie("legacy");
+    });
+
+  const missing = await router.handle(new Request("http://localhost/preferences"), connInfo);
+  assertEquals(missing.status, 400);
+  assertEquals((await missing.json()).source, "cookies");
+
+  const invalid = await router.handle(
+    new Request("http://localhost/preferences", { headers: { cookie: "session=abc; theme=blue" } }),
+    connInfo,
+  );
+  assertEquals(invalid.status, 400);
+  await invalid.body?.cancel();
+
+  const ok = await router.handle(
+    new Request("http://localhost/preferences", { headers: { cookie: "session=abc; theme=dark" } }),
+    connInfo,
+  );
+  assertEquals(await ok.json(), { session: "abc", theme: "dark" });
+  assertEquals(ok.headers.getSetCookie(), [
+    "theme=dark%20mode; Max-Age=3600; Path=/; HttpOnly; SameSite=Lax",
+    "legacy=; Expires=Thu, 01 Jan 1970 00:00:00 GMT; Max-Age=0",
+  ]);
+
+  const setCookie = (name: string, attributes: OpenapiSetCookieAttributes) => {
+    try {
+      return new ServerResponse(200, "text/plain", "", undefined).setCookie(name, "value", attributes).toResponse()
+        .headers.getSetCookie();
+    } catch (error) {
+      return (error as Error).message;
+    }
+  };
+
+  assertEquals(setCookie("session", { sameSite: "None", secure: true }), ["session=value; Secure; SameSite=None"]);
+  assertEquals(setCookie("a=b", {}), 'Invalid cookie name="a=b"');
+  assertEquals(
+    setCookie("session", { path: "/; Domain=evil.example" }),
+    'Invalid path="/; Domain=evil.example" of cookie name=session',
+  );
+  assertEquals(
+    setCookie("session", { domain: "example.com\r\nX-Injected: 1" }),
+    'Invalid domain="example.com\\r\\nX-Injected: 1" of cookie name=session',
+  );
+  assertEquals(
+    setCookie("session", { sameSite: "None" }),
+    "The cookie name=session must be secure to be SameSite=None or partitioned",
+  );
+
+  const docs = await router.handle(new Request("http://localhost/docs/openapi"), connInfo);
+  const document = await docs.json();
+
+  assertEquals(document.paths["/preferences"].get.parameters, [
+    { in: "cookie", name: "session", required: true, schema: { type: "string" } },
+    { in: "cookie", name: "theme", required: false, schema: { type: "string", enum: ["light", "dark"] } },
+  ]);
+});
+
+Deno.test("Responses are negotiated according to the Accept header", async () => {
+  const registry = new OpenapiRegistry();
+  const endpoints = new OpenapiEndpoints()
+    .endpoint({
+      method: "get",
+      path: "/greeting",
+      responses: {
+        200: {
+          description: "The greeting",
+          content: {
+            "application/json": {
+              schema: z.object({ greeting: z.string() }),
+            },
+            "text/plain": {
+              schema: z.string(),
+            },
+          },
+        },
+      },
+    });
+
+  const router = new OpenapiRouter({ endpoints, registry })
+    .get("/greeting", ({ accepts }, _, respondNegotiated) => {
+      return respondNegotiated(200, {
+        "application/json": () => ({ greeting: accepts.join(",") }),
+        "text/plain": () => accepts.join(","),
+      });
+    });
+
+  const request = (accept?: string) =>
+    router.handle(new Request("http://localhost/greeting", { headers: accept ? { accept } : {} }), connInfo);
+
+  const any = await request();
+  assertEquals(any.headers.get("content-type"), "application/json");
+  assertEquals(await any.json(), { greeting: "application/json,text/plain" });
+
+  const text = await request("application/json;q=0.5, text/*");
+  assertEquals(text.headers.get("content-type"), "text/plain");
+  assertEquals(await text.text(), "text/plain,application/json");
+
+  const excluded = await request("*/*, application/json;q=0");
+  assertEquals(await excluded.text(), "text/plain");
+
+  const notAcceptable = await request("text/html");
+  assertEquals(notAcceptable.status, 406);
+  await notAcceptable.body?.cancel();
+});
+
+Deno.test("Responses are validated against the declared ones when enabled", async () => {
+  const endpoints = new OpenapiEndpoints()
+    .endpoint({
+      method: "get",
+      path: "/users/{id}",
+      request: {
+        params: {
+          id: zsNumber(z.number().int()),
+        },
+      },
+      responses: {
+        200: {
+          description: "The user",
+          content: {
+            "application/json": {
+              schema: z.object({ id: z.number(), name: z.string() }),
+            },
+          },
+        },
+      },
+    });
+
+  const createRouter = (mode: "strict" | "log-only", mismatches: string[]) =>
+    new OpenapiRouter({
+      endpoints,
+      registry: new OpenapiRegistry(),
+      responseValidation: {
+        mode,
+        onMismatch: (error, { method, path }) => mismatches.push(`${method} ${path} ${error.source}`),
+      },
+    })
+      .get("/users/{id}", ({ params }, respond) => {
+        const user = { id: params.id, name: "jacky", password: "secret" };
+        // Simulates a drift between the implementation and the declared contract
+        return respond(200, "application/json")(params.id > 1 ? { ...user, name: undefined! } : user);
+      });
+
+  const strictMismatches: string[] = [];
+  const strict = createRouter("strict", strictMismatches);
+
+  const stripped = await strict.handle(new Request("http://localhost/users/1"), connInfo);
+  assertEquals(await stripped.json(), { id: 1, name: "jacky" });
+
+  const invalid = await strict.handle(new Request("http://localhost/users/2"), connInfo);
+  assertEquals(invalid.status, 500);
+  assertEquals((await invalid.json()).source, "body");
+  assertEquals(strictMismatches, ["get /users/{id} body"]);
+
+  const logOnlyMismatches: string[] = [];
+  const logOnly = createRouter("log-only", logOnlyMismatches);
+
+  const sent = await logOnly.handle(new Request("http://localhost/users/2"), connInfo);
+  assertEquals(sent.status, 200);
+  assertEquals(await sent.json(), { id: 2, password: "secret" });
+  assertEquals(logOnlyMismatches, ["get /users/{id} body"]);
+});
+
+Deno.test("Responses with transforming schemas are validated on their output side", async () => {
+  let transforms = 0;
+  const ReportSchema = z.object({
+    count: z.string().transform(Number).pipe(z.number()),
+    label: z.string().transform((value) => {
+      transforms++;
+      return `<${value}>`;
+    }).pipe(z.string()),
+    size: z.string().pipe(z.coerce.number().int()),
+    meta: z.string().transform((value) => JSON.parse(value)).pipe(z.object({ id: z.number() })),
+    at: zsDate(z.date()),
+    raw: z.string().transform(Number).optional(),
+  });
+  const endpoints = new OpenapiEndpoints()
+    .endpoint({
+      method: "get",
+      path: "/reports/{size}",
+      request: { params: { size: zsNumber(z.number()) } },
+      responses: {
+        200: { description: "The report", content: { "application/json": { schema: ReportSchema } } },
+      },
+    });
+
+  const mismatches: OpenapiServerResponseValidationError[] = [];
+  const router = new OpenapiRouter({
+    endpoints,
+    registry: new OpenapiRegistry(),
+    responseValidation: { mode: "strict", onMismatch: (error) => mismatches.push(error) },
+  })
+    .get("/reports/{size}", ({ params }, respond) =>
+      respond(200, "application/json")({
+        count: 5,
+        label: "<a>",
+        size: params.size,
+        meta: { id: 1, secret: "hidden" },
+        at: new Date("2023-01-01T00:00:00.000Z"),
+        raw: params.size === 7 ? 7 : undefined,
+        extra: true,
+      } as z.infer<typeof ReportSchema>));
+
+  const valid = await router.handle(new Request("http://localhost/reports/3"), connInfo);
+  assertEquals([valid.status, await valid.json()], [200, {
+    count: 5,
+    label: "<a>",
+    size: 3,
+    meta: { id: 1 },
+    at: "2023-01-01T00:00:00.000Z",
+  }]);
+  assertEquals(transforms, 0);
+
+  const invalid = await router.handle(new Request("http://localhost/reports/1.5"), connInfo);
+  assertEquals([invalid.status, (await invalid.json()).source], [500, "body"]);
+
+  // The output of a transform which is not piped into a schema can not be trusted
+  const unvalidatable = await router.handle(new Request("http://localhost/reports/7"), connInfo);
+  assertEquals([unvalidatable.status, (await unvalidatable.json()).source], [500, "body"]);
+
+  assertEquals(mismatches.map(({ error }) => error?.issues.map(({ path }) => path)), [[["size"]], [["raw"]]]);
+});
+
+Deno.test("Known paths requested with another method get a 405 and OPTIONS is answered", async () => {
+  const endpoints = createEndpoints()
+    .endpoint({
+      method: "delete",
+      path: "/users/{id}",
+      request: {
+        params: {
+          id: zsNumber(z.number().int()),
+        },
+      },
+      responses: {
+        204: {
+          description: "Deleted",
+          content: {
+            "text/plain": {
+              schema: z.string(),
+            },
+          },
+        },
+      },
+    });
+
+  const router = new OpenapiRouter({ endpoints, registry: new OpenapiRegistry() })
+    .get("/users/{id}", ({ params }, respond) => respond(200, "application/json")({ id: params.id, requestedBy: "" }))
+    .delete("/users/{id}", (_, respond) => respond(204, "text/plain")(""));
+
+  const notAllowed = await router.handle(new Request("http://localhost/users/1", { method: "PUT" }), connInfo);
+  assertEquals(notAllowed.status, 405);
+  assertEquals(notAllowed.headers.get("allow"), "GET, DELETE, HEAD, OPTIONS");
+  await notAllowed.body?.cancel();
+
+  const options = await router.handle(new Request("http://localhost/users/1", { method: "OPTIONS" }), connInfo);
+  assertEquals(options.status, 204);
+  assertEquals(options.headers.get("allow"), "GET, DELETE, HEAD, OPTIONS");
+
+  const notFound = await router.handle(new Request("http://localhost/unknown", { method: "PUT" }), connInfo);
+  assertEquals(notFound.status, 404);
+  await notFound.body?.cancel();
+
+  const customized = new OpenapiRouter({
+    endpoints: createEndpoints(),
+    registry: new OpenapiRegistry(),
+    methodNotAllowedHandler: ({ allow }) => Response.json({ allow }, { status: 405 }),
+  });
+
+  const custom = await customized.handle(new Request("http://localhost/docs/openapi", { method: "POST" }), connInfo);
+  assertEquals(custom.status, 405);
+  assertEquals(await custom.json(), { allow: ["GET", "HEAD", "OPTIONS"] });
+});
+
+Deno.test("HEAD requests are served by the GET handler unless overridden", async () => {
+  const endpoints = createEndpoints()
+    .endpoint({
+      method: "head",
+      path: "/users/{id}",
+      request: {
+        params: {
+          id: zsNumber(z.number().int()),
+        },
+      },
+      responses: {
+        200: {
+          description: "The user exists",
+          content: {
+            "application/json": {
+              schema: z.object({ id: z.number(), requestedBy: z.string() }),
+            },
+          },
+        },
+      },
+    })
+    .endpoint({
+      method: "options",
+      path: "/healthz",
+      responses: {
+        200: {
+          description: "The capabilities",
+          content: {
+            "text/plain": {
+              schema: z.string(),
+            },
+          },
+        },
+      },
+    });
+
+  const router = new OpenapiRouter({ endpoints, registry: new OpenapiRegistry() })
+    .get("/healthz", (_, respond) => respond(200, "text/plain")("OK", { "x-healthy": "true" }))
+    .options("/healthz", (_, respond) => respond(200, "text/plain")("GET"))
+    .head(
+      "/users/{id}",
+      (_, respond) => respond(200, "application/json")({ id: 0, requestedBy: "" }, { "x-head": "1" }),
+    );
+
+  const head = await router.handle(new Request("http://localhost/healthz", { method: "HEAD" }), connInfo);
+  assertEquals(head.status, 200);
+  assertEquals(head.headers.get("x-healthy"), "true");
+  assertEquals(head.headers.get("content-type"), "text/plain");
+  assertEquals(head.body, null);
+
+  const overridden = await router.handle(new Request("http://localhost/users/1", { method: "HEAD" }), connInfo);
+  assertEquals(overridden.headers.get("x-head"), "1");
+
+  const options = await router.handle(new Request("http://localhost/healthz", { method: "OPTIONS" }), connInfo);
+  assertEquals(await options.text(), "GET");
+
+  const document = await (await router.handle(new Request("http://localhost/docs/openapi"), connInfo)).json();
+  assertEquals(Object.keys(document.paths["/users/{id}"]), ["head"]);
+  assertEquals(Object.keys(document.paths["/healthz"]), ["get", "options"]);
+});
+
+Deno.test("CORS preflight and actual requests are answered from the declared endpoints", async () => {
+  const registry = new OpenapiRegistry();
+  const bearerAuth = registry.registerSecurityScheme("bearerAuth", { type: "http", scheme: "bearer" });
+  const endpoints = new OpenapiEndpoints()
+    .endpoint({
+      method: "put",
+      path: "/users/{id}",
+      security: [bearerAuth.requirement()],
+      request: {
+        params: {
+          id: zsNumber(z.number().int()),
+        },
+        headers: {
+          "X-Request-Id": z.string().optional(),
+        },
+        body: {
+          content: {
+            "application/json": {
+              schema: z.object({ name: z.string() }),
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          description: "The user",
+          headers: {
+            "X-RateLimit-Remaining": {
+              schema: z.number(),
+            },
+          },
+          content: {
+            "application/json": {
+              schema: z.object({ name: z.string() }),
+            },
+          },
+        },
+      },
+    });
+
+  const router = new OpenapiRouter({
+    endpoints,
+    registry,
+    security: { verifiers: [bearerAuth.verifier(() => ({}))] },
+    cors: {
+      origin: (origin) => origin === "https://app.example" ? { credentials: true } : origin === "https://other.example",
+      maxAge: 600,
+    },
+  })
+    .put("/users/{id}", ({ body }, respond) => respond(200, "application/json")(body, { "X-RateLimit-Remaining": 9 }));
+
+  const preflight = await router.handle(
+    new Request("http://localhost/users/1", {
+      method: "OPTIONS",
+      headers: { origin: "https://app.example", "access-control-request-method": "PUT" },
+    }),
+    connInfo,
+  );
+  assertEquals(preflight.status, 204);
+  assertEquals(preflight.headers.get("access-control-allow-origin"), "https://app.example");
+  assertEquals(preflight.headers.get("access-control-allow-credentials"), "true");
+  assertEquals(preflight.headers.get("access-control-allow-methods"), "PUT, OPTIONS");
+  assertEquals(preflight.headers.get("access-control-allow-headers"), "x-request-id, content-type, authorization");
+  assertEquals(preflight.headers.get("access-control-max-age"), "600");
+  assertEquals(preflight.headers.get("vary"), "Origin");
+
+  const actual = await router.handle(
+    new Request("http://localhost/users/1", {
+      method: "PUT",
+      headers: { origin: "https://other.example", authorization: "Bearer token", "content-type": "application/json" },
+      body: JSON.stringify({ name: "jacky" }),
+    }),
+    connInfo,
+  );
+  assertEquals(await actual.json(), { name: "jacky" });
+  assertEquals(actual.headers.get("access-control-allow-origin"), "https://other.example");
+  assertEquals(actual.headers.get("access-control-allow-credentials"), null);
+  assertEquals(actual.headers.get("access-control-expose-headers"), "x-ratelimit-remaining");
+
+  const disallowed = await router.handle(
+    new Request("http://localhost/users/1", {
+      method: "OPTIONS",
+      headers: { origin: "https://evil.example", "access-control-request-method": "PUT" },
+    }),
+    connInfo,
+  );
+  assertEquals(disallowed.headers.get("access-control-allow-origin"), null);
+  assertEquals(disallowed.headers.get("vary"), "Origin");
+  await disallowed.body?.cancel();
+
+  const sameOrigin = await router.handle(
+    new Request("http://localhost/users/1", {
+      method: "PUT",
+      headers: { authorization: "Bearer token", "content-type": "application/json" },
+      body: JSON.stringify({ name: "jacky" }),
+    }),
+    connInfo,
+  );
+  assertEquals(sameOrigin.headers.get("access-control-allow-origin"), null);
+  assertEquals(sameOrigin.headers.get("vary"), "Origin");
+  await sameOrigin.body?.cancel();
+
+  const wildcardRouter = new OpenapiRouter({
+    endpoints: createEndpoints(),
+    registry: new OpenapiRegistry(),
+    cors: { origin: "*" },
+  })
+    .get("/healthz", (_, respond) => respond(200, "text/plain")("OK"));
+  const wildcard = await wildcardRouter.handle(
+    new Request("http://localhost/healthz", { headers: { origin: "https://other.example" } }),
+    connInfo,
+  );
+  assertEquals(wildcard.headers.get("access-control-allow-origin"), "*");
+  assertEquals(wildcard.headers.get("vary"), null);
+  await wildcard.body?.cancel();
+});
+
+Deno.test("The generated document is configurable, served as JSON or YAML with an ETag, and can be protected", async () => {
+  const registry = new OpenapiRegistry();
+  const apiKeyAuth = registry.registerSecurityScheme("apiKeyAuth", { type: "apiKey", in: "header", name: "x-api-key" });
+  const router = new OpenapiRouter({
+    endpoints: createEndpoints(),
+    registry,
+    security: { verifiers: [apiKeyAuth.verifier(({ key }) => key === "docs" ? {} : undefined)] },
+    openapiSpecPath: "/openapi",
+    openapiSpecSecurity: [apiKeyAuth.requirement()],
+    document: {
+      openapi: "3.0.3",
+      info: { title: "Users API", version: "2.1.0" },
+      servers: [{ url: "https://api.example" }],
+      tags: [{ name: "users", description: "Everything about users" }],
+      "x-audience": "internal",
+    },
+  })
+    .get("/healthz", (_, respond) => respond(200, "text/plain")("OK"));
+
+  const docsRequest = (headers: Record<string, string>) =>
+    router.handle(new Request("http://localhost/openapi", { headers: { "x-api-key": "docs", ...headers } }), connInfo);
+
+  const unauthorized = await router.handle(new Request("http://localhost/openapi"), connInfo);
+  assertEquals(unauthorized.status, 401);
+  await unauthorized.body?.cancel();
+
+  const json = await docsRequest({});
+  const document = await json.json();
+  assertEquals(document.openapi, "3.0.3");
+  assertEquals(document.info, { title: "Users API", version: "2.1.0" });
+  assertEquals(document.servers, [{ url: "https://api.example" }]);
+  assertEquals(document.tags, [{ name: "users", description: "Everything about users" }]);
+  assertEquals(document["x-audience"], "internal");
+  assertEquals(document.paths["/openapi"].get.security, [{ apiKeyAuth: [] }]);
+
+  const etag = json.headers.get("etag")!;
+  const notModified = await docsRequest({ "if-none-match": etag });
+  assertEquals(notModified.status, 304);
+  assertEquals(notModified.body, null);
+
+  const yaml = await docsRequest({ accept: "application/yaml" });
+  assertEquals(yaml.headers.get("content-type"), "application/yaml");
+  const yamlText = await yaml.text();
+  assertEquals(yamlText.startsWith('openapi: "3.0.3"\ninfo:\n  title: Users API\n  version: "2.1.0"\n'), true);
+  assertEquals(yamlText.includes('servers:\n  - url: "https://api.example"\n'), true);
+
+  const disabled = new OpenapiRouter({
+    endpoints: createEndpoints(),
+    registry: new OpenapiRegistry(),
+    openapiSpecPath: false,
+  });
+  const notFound = await disabled.handle(new Request("http://localhost/docs/openapi"), connInfo);
+  assertEquals(notFound.status, 404);
+  await notFound.body?.cancel();
+});
+
+Deno.test("The docs page is served from the router without appearing in the document", async () => {
+  const router = new OpenapiRouter({
+    endpoints: createEndpoints(),
+    registry: new OpenapiRegistry(),
+    docsPage: { path: "/reference", theme: "dark", tryItOutBaseUrl: "https://api.example" },
+  });
+
+  const page = await router.handle(new Request("http://localhost/reference"), connInfo);
+  assertEquals(page.headers.get("content-type"), "text/html; charset=utf-8");
+
+  const html = await page.text();
+  assertEquals(html.includes('<html lang="en" data-theme="dark">'), true);
+  assertEquals(
+    html.includes('{"title":"Test","specUrl":"/docs/openapi","tryItOutBaseUrl":"https://api.example"}'),
+    true,
+  );
+  assertEquals(/<(script|link)[^>]+(src|href)=/.test(html), false);
+
+  const document = await (await router.handle(new Request("http://localhost/docs/openapi"), connInfo)).json();
+  assertEquals(Object.keys(document.paths), ["/docs/openapi"]);
+});
+
+Deno.test("Recursive schemas are validated, inferred and referenced in the document", async () => {
+  interface Comment {
+    text: string;
+    replies: Comment[];
+  }
+
+  const registry = new OpenapiRegistry();
+  const CommentSchema: z.ZodType<Comment> = registry.register(
+    "Comment",
+    z.lazy(() => z.object({ text: z.string(), replies: z.array(CommentSchema) })),
+  );
+
+  const endpoints = new OpenapiEndpoints()
+    .endpoint({
+      method: "post",
+      path: "/comments",
+      request: {
+        body: { content: { "application/json": { schema: CommentSchema } } },
+      },
+      responses: {
+        200: {
+          description: "The thread",
+          content: { "application/json": { schema: z.object({ count: z.number(), thread: CommentSchema }) } },
+        },
+      },
+    });
+
+  const countComments = (comment: Comment): number =>
+    comment.replies.reduce((count, reply) => count + countComments(reply), 1);
+
+  const router = new OpenapiRouter({ endpoints, registry })
+    .post("/comments", ({ body }, respond) => {
+      const thread: Comment = body;
+      return respond(200, "application/json")({ count: countComments(thread), thread });
+    });
+
+  const thread = { text: "a", replies: [{ text: "b", replies: [{ text: "c", replies: [] }] }] };
+  const post = (body: unknown) =>
+    router.handle(
+      new Request("http://localhost/comments", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body),
+      }),
+      connInfo,
+    );
+
+  const created = await post(thread);
+  assertEquals(await created.json(), { count: 3, thread });
+
+  const invalid = await post({ text: "a", replies: [{ text: "b", replies: [{ text: 1, replies: [] }] }] });
+  assertEquals(invalid.status, 400);
+  await invalid.body?.cancel();
+
+  const document = await (await router.handle(new Request("http://localhost/docs/openapi"), connInfo)).json();
+  assertEquals(document.components.schemas.Comment.properties.replies, {
+    type: "array",
+    items: { $ref: "#/components/schemas/Comment" },
+  });
+  assertEquals(document.paths["/comments"].post.requestBody.content["application/json"].schema, {
+    $ref: "#/components/schemas/Comment",
+  });
+});
+
+Deno.test("Registered responses, request bodies and headers are referenced and keep their types", async () => {
+  const registry = new OpenapiRegistry();
+  const RateLimitHeader = registry.registerHeader("RateLimitRemaining", {
+    description: "How many requests are left",
+    schema: z.number(),
+  });
+  const NotFoundResponse = registry.registerResponse("NotFound", {
+    description: "Not found",
+    headers: { "X-RateLimit-Remaining": RateLimitHeader },
+    content: { "application/json": { schema: z.object({ message: z.string() }) } },
+  });
+  const UserBody = registry.registerRequestBody("User", {
+    required: true,
+    content: { "application/json": { schema: z.object({ name: z.string() }) } },
+  });
+
+  const endpoints = new OpenapiEndpoints()
+    .endpoint({
+      method: "put",
+      path: "/users/{id}",
+      request: {
+        params: { id: zsNumber(z.number().int()) },
+        body: UserBody,
+      },
+      responses: {
+        200: {
+          description: "The user",
+          headers: { "X-RateLimit-Remaining": RateLimitHeader },
+          content: { "application/json": { schema: z.object({ id: z.number(), name: z.string() }) } },
+        },
+        404: NotFoundResponse,
+      },
+    });
+
+  const router = new OpenapiRouter({ endpoints, registry })
+    .put("/users/{id}", ({ params, body }, respond) => {
+      if (params.id === 0) {
+        return respond(404, "application/json")({ message: `User ${params.id} not found` }, {
+          "X-RateLimit-Remaining": 8,
+        });
+      }
+
+      return respond(200, "application/json")({ id: params.id, name: body.name }, { "X-RateLimit-Remaining": 9 });
+    });
+
+  const put = (id: number) =>
+    router.handle(
+      new Request(`http://localhost/users/${id}`, {
+        method: "PUT",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ name: "Jane" }),
+      }),
+      connInfo,
+    );
+
+  const found = await put(1);
+  assertEquals(await found.json(), { id: 1, name: "Jane" });
+
+  const notFound = await put(0);
+  assertEquals(notFound.status, 404);
+  assertEquals(notFound.headers.get("x-ratelimit-remaining"), "8");
+  assertEquals(await notFound.json(), { message: "User 0 not found" });
+
+  const document = await (await router.handle(new Request("http://localhost/docs/openapi"), connInfo)).json();
+  const operation = document.paths["/users/{id}"].put;
+  assertEquals(operation.requestBody, { $ref: "#/components/requestBodies/User" });
+  assertEquals(operation.responses[404], { $ref: "#/components/responses/NotFound" });
+  assertEquals(operation.responses[200].headers, {
+    "X-RateLimit-Remaining": { $ref: "#/components/headers/RateLimitRemaining" },
+  });
+  assertEquals(document.components.headers, {
+    RateLimitRemaining: { description: "How many requests are left", schema: { type: "number" } },
+  });
+  assertEquals(document.components.responses.NotFound, {
+    description: "Not found",
+    headers: { "X-RateLimit-Remaining": { $ref: "#/components/headers/RateLimitRemaining" } },
+    content: {
+      "application/json": {
+        schema: { type: "object", properties: { message: { type: "string" } }, required: ["message"] },
+      },
+    },
+  });
+  assertEquals(document.components.requestBodies.User.required, true);
+});
+
+Deno.test("Default responses are declared for every endpoint added after them", async () => {
+  const registry = new OpenapiRegistry();
+  const InternalErrorResponse = registry.registerResponse("InternalError", {
+    description: "Something went wrong",
+    content: { "application/json": { schema: z.object({ message: z.string() }) } },
+  });
+
+  const endpoints = new OpenapiEndpoints()
+    .endpoint({
+      method: "get",
+      path: "/healthz",
+      responses: { 200: { description: "OK", content: { "text/plain": { schema: z.string() } } } },
+    })
+    .withDefaultResponses({ 400: openapiRequestValidationErrorResponse, 500: InternalErrorResponse })
+    .endpoint({
+      method: "get",
+      path: "/users/{id}",
+      request: { params: { id: zsNumber(z.number().int()) } },
+      responses: {
+        200: { description: "The user", content: { "application/json": { schema: z.object({ id: z.number() }) } } },
+        500: { description: "The user is broken", content: { "text/plain": { schema: z.string() } } },
+      },
+    })
+    .merge(
+      new OpenapiEndpoints().endpoint({
+        method: "get",
+        path: "/ping",
+        responses: { 200: { description: "Pong", content: { "text/plain": { schema: z.string() } } } },
+      }),
+    )
+    .endpoint({
+      method: "get",
+      path: "/orders",
+      responses: {
+        200: { description: "The orders", content: { "application/json": { schema: z.array(z.string()) } } },
+      },
+    });
+
+  const router = new OpenapiRouter({ endpoints, registry, responseValidation: { mode: "strict" } })
+    .get("/healthz", (_, respond) => respond(200, "text/plain")("OK"))
+    .get("/ping", (_, respond) => respond(200, "text/plain")("Pong"))
+    .get("/orders", (_, respond) => respond(500, "application/json")({ message: "Unavailable" }))
+    .get("/users/{id}", ({ params }, respond) => {
+      if (params.id === 0) {
+        return respond(500, "text/plain")("Broken");
+      }
+
+      return respond(200, "application/json")({ id: params.id });
+    });
+
+  const invalid = await router.handle(new Request("http://localhost/users/abc"), connInfo);
+  assertEquals(invalid.status, 400);
+  assertEquals(OpenapiRequestValidationErrorSchema.safeParse(await invalid.json()).success, true);
+
+  const broken = await router.handle(new Request("http://localhost/users/0"), connInfo);
+  assertEquals(broken.status, 500);
+  assertEquals(await broken.text(), "Broken");
+
+  const document = await (await router.handle(new Request("http://localhost/docs/openapi"), connInfo)).json();
+  assertEquals(Object.keys(document.paths["/healthz"].get.responses), ["200"]);
+  assertEquals(Object.keys(document.paths["/users/{id}"].get.responses), ["200", "400", "500"]);
+  assertEquals(
+    document.paths["/users/{id}"].get.responses[400].content["application/json"].schema.properties.source,
+    { type: "string", enum: ["params", "query", "headers", "cookies", "body"] },
+  );
+  assertEquals(document.paths["/users/{id}"].get.responses[500].description, "The user is broken");
+
+  // The endpoints declared after a merge still get the default responses
+  assertEquals(Object.keys(document.paths["/ping"].get.responses), ["200"]);
+  assertEquals(Object.keys(document.paths["/orders"].get.responses), ["200", "400", "500"]);
+
+  const unavailable = await router.handle(new Request("http://localhost/orders"), connInfo);
+  assertEquals([unavailable.status, await unavailable.json()], [500, { message: "Unavailable" }]);
+});
+
+Deno.test("Router errors are problem details when enabled, documented and decoded by the client", async () => {
+  const registry = new OpenapiRegistry();
+  const endpoints = new OpenapiEndpoints()
+    .endpoint({
+      method: "put",
+      path: "/users/{id}",
+      request: {
+        params: { id: zsNumber(z.number().int()) },
+        body: { content: { "application/json": { schema: z.object({ name: z.string() }) } } },
+      },
+      responses: {
+        200: { description: "The user", content: { "application/json": { schema: z.object({ name: z.string() }) } } },
+      },
+    });
+
+  const router = new OpenapiRouter({ endpoints, registry, problemDetails: true })
+    .put("/users/{id}", ({ params, body }, respond) => {
+      if (params.id === 0) {
+        throw new Error("Boom");
+      }
+
+      return respond(200, "application/json")(body);
+    });
+
+  const request = (path: string, init?: RequestInit) =>
+    router.handle(new Request(`http://localhost${path}`, init), connInfo);
+  const put = (path: string, body: string, headers: Record<string, string> = {}) =>
+    request(path, { method: "PUT", headers: { "content-type": "application/json", ...headers }, body });
+
+  const notFound = await request("/nowhere");
+  assertEquals(notFound.status, 404);
+  assertEquals(notFound.headers.get("content-type"), "application/problem+json");
+  assertEquals(await notFound.json(), { title: "Not Found", status: 404, detail: "No route matches /nowhere" });
+
+  const notAllowed = await request("/users/1", { method: "DELETE" });
+  assertEquals(notAllowed.headers.get("allow"), "PUT, OPTIONS");
+  assertEquals((await notAllowed.json()).status, 405);
+
+  const invalid = await put("/users/abc", JSON.stringify({ name: "Jane" }));
+  const invalidProblem = await invalid.json();
+  assertEquals([invalidProblem.status, invalidProblem.source], [400, "params"]);
+
+  const malformed = await put("/users/1", "{");
+  const malformedProblem = await malformed.json();
+  assertEquals([malformedProblem.status, malformedProblem.source], [400, "body"]);
+
+  const unsupported = await put("/users/1", "name=Jane", { "content-type": "application/x-www-form-urlencoded" });
+  assertEquals((await unsupported.json()).status, 415);
+
+  const notAcceptable = await put("/users/1", JSON.stringify({ name: "Jane" }), { accept: "text/html" });
+  assertEquals((await notAcceptable.json()).status, 406);
+
+  const consoleError = console.error;
+  console.error = () => {};
+
+  try {
+    const failed = await put("/users/0", JSON.stringify({ name: "Jane" }));
+    assertEquals(await failed.json(), { title: "Internal Server Error", status: 500 });
+  } finally {
+    console.error = consoleError;
+  }
+
+  const document = await (await request("/docs/openapi")).json();
+  assertEquals(document.paths["/users/{id}"].put.responses, {
+    200: document.paths["/users/{id}"].put.responses[200],
+    400: { $ref: "#/components/responses/ProblemDetails" },
+    406: { $ref: "#/components/responses/ProblemDetails" },
+    415: { $ref: "#/components/responses/ProblemDetails" },
+    500: { $ref: "#/components/responses/ProblemDetails" },
+  });
+  assertEquals(document.components.responses.ProblemDetails.content["application/problem+json"].schema, {
+    $ref: "#/components/schemas/ProblemDetails",
+  });
+
+  const client = new OpenapiClient({ baseUrl: "http://localhost", endpoints });
+  const fetch = globalThis.fetch;
+  globalThis.fetch = (input, init) => router.handle(new Request(input, init), connInfo);
+
+  try {
+    const error = await client.put("/users/{id}", { params: { id: 1 }, body: { name: 1 as unknown as string } })
+      .catch((error) => error);
+    assertEquals(error instanceof OpenapiClientProblemError, true);
+    assertEquals(error.problem.source, "body");
+    assertEquals(error.message, "Request validation failed");
+  } finally {
+    globalThis.fetch = fetch;
+  }
+
+  // The JSON 400 of the default validation error handler would contradict the problem details
+  const jsonEndpoints = new OpenapiEndpoints()
+    .withDefaultResponses({ 400: openapiRequestValidationErrorResponse })
+    .endpoint({
+      method: "get",
+      path: "/users/{id}",
+      request: { params: { id: zsNumber(z.number().int()) } },
+      responses: { 200: { description: "The user", content: { "text/plain": { schema: z.string() } } } },
+    });
+  const conflicting = (() => {
+    try {
+      new OpenapiRouter({ endpoints: jsonEndpoints, registry: new OpenapiRegistry(), problemDetails: true })
+        .get("/users/{id}", (_, respond) => respond(200, "text/plain")("jacky"));
+    } catch (error) {
+      return error as Error;
+    }
+  })();
+  assertEquals(conflicting instanceof Error, true);
+  assertEquals(
+    conflicting?.message,
+    "The 400 response of method=get path=/users/{id} is openapiRequestValidationErrorResponse, which is JSON " +
+      "while the router answers the validation errors with problem details, remove it to have them declared",
+  );
+});
+
+Deno.test("Malformed bodies are rejected as invalid and exceptions are answered by onError", async () => {
+  const registry = new OpenapiRegistry();
+  const endpoints = new OpenapiEndpoints()
+    .endpoint({
+      method: "post",
+      path: "/orders/{id}",
+      request: {
+        params: { id: z.string() },
+        body: { content: { "application/json": { schema: z.object({ quantity: z.number() }) } } },
+      },
+      responses: {
+        200: { description: "The order", content: { "application/json": { schema: z.object({ id: z.string() }) } } },
+        404: { description: "Unknown order", content: {} },
+        409: {
+          description: "Out of stock",
+          content: { "application/json": { schema: z.object({ available: z.number() }) } },
+        },
+      },
+    });
+
+  const errors: unknown[] = [];
+  const router = new OpenapiRouter({
+    endpoints,
+    registry,
+    onError: (error, { url }) => {
+      errors.push(error);
+      return url.pathname === "/orders/fallback" ? undefined : new Response("Teapot", { status: 418 });
+    },
+  })
+    .post("/orders/{id}", ({ params, body }, respond) => {
+      switch (params.id) {
+        case "missing":
+          throw new HttpError(404);
+        case "sold-out":
+          throw new HttpError(409, "application/json", { available: body.quantity - 1, internal: true });
+        case "undeclared":
+          throw new HttpError(410);
+        case "fallback":
+        case "broken":
+          throw new Error("Boom");
+      }
+
+      return respond(200, "application/json")({ id: params.id });
+    });
+
+  const post = (id: string, body: string) =>
+    router.handle(
+      new Request(`http://localhost/orders/${id}`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body,
+      }),
+      connInfo,
+    );
+
+  const malformed = await post("1", "{");
+  assertEquals(malformed.status, 400);
+  assertEquals(await malformed.json(), {
+    message: "Request validation failed",
+    source: "body",
+    errors: [{ code: "custom", path: [], message: "The request body could not be parsed as application/json" }],
+  });
+
+  const missing = await post("missing", JSON.stringify({ quantity: 1 }));
+  assertEquals([missing.status, await missing.text()], [404, ""]);
+
+  // Checked against the declared responses even without the response validation, the undeclared fields are stripped
+  const soldOut = await post("sold-out", JSON.stringify({ quantity: 3 }));
+  assertEquals([soldOut.status, await soldOut.json()], [409, { available: 2 }]);
+
+  const undeclared = await post("undeclared", JSON.stringify({ quantity: 1 }));
+  assertEquals([undeclared.status, await undeclared.text()], [418, "Teapot"]);
+  assertEquals(errors[0] instanceof OpenapiServerResponseValidationError, true);
+
+  const broken = await post("broken", JSON.stringify({ quantity: 1 }));
+  assertEquals(broken.status, 418);
+  assertEquals((errors[1] as Error).message, "Boom");
+
+  const fallback = await post("fallback", JSON.stringify({ quantity: 1 }));
+  assertEquals([fallback.status, await fallback.json()], [500, { message: "Internal Server Error" }]);
+  assertEquals(errors.length, 3);
+});
+
+Deno.test("A failing onError falls back to the default 500 and reports both errors", async () => {
+  const endpoints = new OpenapiEndpoints()
+    .endpoint({
+      method: "get",
+      path: "/healthz",
+      responses: { 200: { description: "OK", content: { "text/plain": { schema: z.string() } } } },
+    });
+
+  const router = new OpenapiRouter({
+    endpoints,
+    registry: new OpenapiRegistry(),
+    onError: async () => {
+      await Promise.resolve();
+      throw new Error("Handler failed");
+    },
+  })
+    .get("/healthz", () => {
+      throw new Error("Boom");
+    });
+
+  const reported: unknown[] = [];
+  const consoleError = console.error;
+  console.error = (...data: unknown[]) => reported.push(...data);
+
+  try {
+    const response = await router.handle(new Request("http://localhost/healthz"), connInfo);
+    assertEquals([response.status, await response.json()], [500, { message: "Internal Server Error" }]);
+  } finally {
+    console.error = consoleError;
+  }
+
+  assertEquals(reported.length, 1);
+  assertEquals((reported[0] as AggregateError).errors.map((error: Error) => error.message), ["Boom", "Handler failed"]);
+});
+
+Deno.test("Responses are encoded to their wire format and decoded back by the client", async () => {
+  const registry = new OpenapiRegistry();
+  const ReportSchema = z.object({
+    count: zsNumber(z.number()),
+    total: zsBigInt(z.bigint()),
+    published: zsBoolean(z.boolean()),
+    publishedAt: zsDate(z.date()),
+    updatedAt: z.date().optional(),
+    tags: z.set(z.string()),
+    scores: z.map(z.string(), z.bigint()),
+    history: z.map(z.date(), z.number()),
+    nested: z.array(z.object({ at: z.date() })),
+    either: z.union([z.date(), z.number()]),
+  });
+  const endpoints = new OpenapiEndpoints()
+    .endpoint({
+      method: "get",
+      path: "/report",
+      responses: {
+        200: { description: "The report", content: { "application/json": { schema: ReportSchema } } },
+      },
+    });
+
+  const report: z.infer<typeof ReportSchema> = {
+    count: 1.5,
+    total: 9007199254740993n,
+    published: true,
+    publishedAt: new Date("2023-01-02T03:04:05.678Z"),
+    tags: new Set(["a", "b"]),
+    scores: new Map([["alice", 12345678901234567890n]]),
+    history: new Map([[new Date("2023-01-01T00:00:00.000Z"), 1]]),
+    nested: [{ at: new Date("2023-02-01T00:00:00.000Z") }],
+    either: new Date("2023-03-01T00:00:00.000Z"),
+  };
+
+  const router = new OpenapiRouter({ endpoints, registry })
+    .get("/report", (_, respond) => respond(200, "application/json")(report));
+
+  const response = await router.handle(new Request("http://localhost/report"), connInfo);
+  assertEquals(await response.json(), {
+    count: 1.5,
+    total: "9007199254740993",
+    published: true,
+    publishedAt: "2023-01-02T03:04:05.678Z",
+    tags: ["a", "b"],
+    scores: { alice: "12345678901234567890" },
+    history: [["2023-01-01T00:00:00.000Z", 1]],
+    nested: [{ at: "2023-02-01T00:00:00.000Z" }],
+    either: "2023-03-01T00:00:00.000Z",
+  });
+
+  const client = new OpenapiClient({ baseUrl: "http://localhost", endpoints });
+  const fetch = globalThis.fetch;
+  globalThis.fetch = (input, init) => router.handle(new Request(input, init), connInfo);
+
+  try {
+    assertEquals((await client.get("/report", {})).data, report);
+  } finally {
+    globalThis.fetch = fetch;
+  }
+
+  const document = await (await router.handle(new Request("http://localhost/docs/openapi"), connInfo)).json();
+  const properties = document.paths["/report"].get.responses[200].content["application/json"].schema.properties;
+  assertEquals([properties.total, properties.publishedAt], [
+    { type: "string", format: "int64" },
+    { type: "string", format: "date-time" },
+  ]);
+});
+
+Deno.test("Query parameters are read and written according to their style and explode options", async () => {
+  const registry = new OpenapiRegistry();
+  const QuerySchema = z.object({
+    ids: z.array(zsNumber(z.number())).openapi({ param: { explode: false } }),
+    tags: z.array(z.string()).openapi({ param: { style: "pipeDelimited" } }),
+    words: z.array(z.string()).openapi({ param: { style: "spaceDelimited" } }),
+    filter: z.object({
+      status: z.enum(["open", "closed"]),
+      labels: z.array(z.string()).optional(),
+      created: z.object({ after: zsDate(z.date()) }).optional(),
+    }).openapi({ param: { style: "deepObject" } }),
+    page: z.object({ offset: zsNumber(z.number()), limit: zsNumber(z.number()) }).optional(),
+    color: z.object({ r: z.string(), g: z.string() }).openapi({ param: { explode: false } }).optional(),
+  });
+  const endpoints = new OpenapiEndpoints()
+    .endpoint({
+      method: "get",
+      path: "/issues",
+      request: { query: QuerySchema.shape },
+      responses: {
+        200: { description: "The query", content: { "application/json": { schema: QuerySchema } } },
+      },
+    });
+
+  const router = new OpenapiRouter({ endpoints, registry })
+    .get("/issues", ({ query }, respond) => respond(200, "application/json")(query));
+
+  const query: z.infer<typeof QuerySchema> = {
+    ids: [1, 2, 3],
+    tags: ["a", "b"],
+    words: ["hello", "world"],
+    filter: { status: "open", labels: ["bug", "ui"], created: { after: new Date("2023-01-01T00:00:00.000Z") } },
+    page: { offset: 0, limit: 10 },
+    color: { r: "100", g: "200" },
+  };
+
+  const urls: string[] = [];
+  const client = new OpenapiClient({ baseUrl: "http://localhost", endpoints });
+  const fetch = globalThis.fetch;
+  globalThis.fetch = (input, init) => {
+    urls.push(String(input));
+    return router.handle(new Request(input, init), connInfo);
+  };
+
+  try {
+    assertEquals((await client.get("/issues", { query })).data, query);
+  } finally {
+    globalThis.fetch = fetch;
+  }
+
+  assertEquals(
+    decodeURIComponent(new URL(urls[0]).search),
+    "?ids=1,2,3&tags=a|b&words=hello+world&filter[status]=open&filter[labels]=bug&filter[labels]=ui" +
+      "&filter[created][after]=2023-01-01T00:00:00.000Z&offset=0&limit=10&color=r,100,g,200",
+  );
+
+  const document = await (await router.handle(new Request("http://localhost/docs/openapi"), connInfo)).json();
+  const parameters: { name: string; style?: string; explode?: boolean }[] = document.paths["/issues"].get.parameters;
+  assertEquals(parameters.map(({ name, style, explode }) => [name, style, explode]), [
+    ["ids", undefined, false],
+    ["tags", "pipeDelimited", undefined],
+    ["words", "spaceDelimited", undefined],
+    ["filter", "deepObject", true],
+    ["page", undefined, undefined],
+    ["color", undefined, false],
+  ]);
+});
+
+Deno.test("Path parameters are matched and rendered according to their style, greedy ones across segments", async () => {
+  const registry = new OpenapiRegistry();
+  const ShapeParamsSchema = z.object({
+    ids: z.array(zsNumber(z.number())),
+    color: z.object({ r: z.string(), g: z.string() }).openapi({ param: { style: "label", explode: true } }),
+    point: z.object({ x: z.string(), y: z.string() }).openapi({ param: { style: "matrix" } }),
+  });
+  const endpoints = new OpenapiEndpoints()
+    .endpoint({
+      method: "get",
+      path: "/files/{path+}",
+      request: { params: { path: z.string() } },
+      responses: {
+        200: { description: "The path", content: { "application/json": { schema: z.string() } } },
+      },
+    })
+    .endpoint({
+      method: "get",
+      path: "/shapes/{ids}/{color}/{point}",
+      request: { params: ShapeParamsSchema.shape },
+      responses: {
+        200: { description: "The params", content: { "application/json": { schema: ShapeParamsSchema } } },
+      },
+    });
+
+  const router = new OpenapiRouter({ endpoints, registry })
+    .get("/files/{path+}", ({ params }, respond) => respond(200, "application/json")(params.path))
+    .get("/shapes/{ids}/{color}/{point}", ({ params }, respond) => respond(200, "application/json")(params));
+
+  const urls: string[] = [];
+  const client = new OpenapiClient({ baseUrl: "http://localhost", endpoints });
+  const fetch = globalThis.fetch;
+  globalThis.fetch = (input, init) => {
+    urls.push(String(input));
+    return router.handle(new Request(input, init), connInfo);
+  };
+
+  try {
+    assertEquals(
+      (await client.get("/files/{path+}", { params: { path: "docs/a b/readme.md" } })).data,
+      "docs/a b/readme.md",
+    );
+
+    const params = { ids: [1, 2, 3], color: { r: "1,0", g: "200" }, point: { x: "1", y: "2" } };
+    assertEquals((await client.get("/shapes/{ids}/{color}/{point}", { params })).data, params);
+  } finally {
+    globalThis.fetch = fetch;
+  }
+
+  assertEquals(urls.map((url) => new URL(url).pathname), [
+    "/files/docs/a%20b/readme.md",
+    "/shapes/1,2,3/.r=1%2C0.g=200/;point=x,1,y,2",
+  ]);
+
+  const notFound = await router.handle(new Request("http://localhost/files/"), connInfo);
+  assertEquals(notFound.status, 404);
+
+  const document = await (await router.handle(new Request("http://localhost/docs/openapi"), connInfo)).json();
+  assertEquals(Object.keys(document.paths), ["/docs/openapi", "/files/{path}", "/shapes/{ids}/{color}/{point}"]);
+
+  const parameters: { name: string; style?: string; explode?: boolean }[] =
+    document.paths["/shapes/{ids}/{color}/{point}"].get.parameters;
+  assertEquals(parameters.map(({ name, style, explode }) => [name, style, explode]), [
+    ["ids", undefined, undefined],
+    ["color", "label", true],
+    ["point", "matrix", undefined],
+  ]);
+});
+
+Deno.test("Routes match static segments before parameters whatever their order, and ambiguous ones are rejected", async () => {
+  const responses = {
+    200: { description: "The matched route", content: { "application/json": { schema: z.string() } } },
+  };
+  const endpoints = new OpenapiEndpoints()
+    .endpoint({ method: "get", path: "/items/{id}", request: { params: { id: z.string() } }, responses })
+    .endpoint({ method: "get", path: "/items/{id}.json", request: { params: { id: z.string() } }, responses })
+    .endpoint({ method: "get", path: "/items/new", responses })
+    .endpoint({
+      method: "get",
+      path: "/items/{id}/{rest+}",
+      request: { params: { id: z.string(), rest: z.string() } },
+      responses,
+    })
+    .endpoint({ method: "get", path: "/items/{id}/edit", request: { params: { id: z.string() } }, responses })
+    .endpoint({ method: "get", path: "/items/{name}", request: { params: { name: z.string() } }, responses });
+
+  const router = new OpenapiRouter({ endpoints, registry: new OpenapiRegistry() })
+    .get("/items/{id}", ({ params }, respond) => respond(200, "application/json")(`param ${params.id}`))
+    .get("/items/{id}.json", ({ params }, respond) => respond(200, "application/json")(`pattern ${params.id}`))
+    .get("/items/new", (_, respond) => respond(200, "application/json")("static"))
+    .get("/items/{id}/{rest+}", ({ params }, respond) => respond(200, "application/json")(`greedy ${params.rest}`))
+    .get("/items/{id}/edit", ({ params }, respond) => respond(200, "application/json")(`edit ${params.id}`));
+
+  const match = (paths: string[]) =>
+    Promise.all(paths.map(async (path) => {
+      const response = await router.handle(new Request(`http://localhost${path}`), connInfo);
+      return response.status === 200 ? await response.json() : response.status;
+    }));
+
+  assertEquals(
+    await match(["/items/new", "/items/5.json", "/items/5", "/items/5/a/b", "/items/", "/items/5/"]),
+    ["static", "pattern 5", "param 5", "greedy a/b", 404, 404],
+  );
+
+  // Overlapping templates fall back to the less specific ones when the more specific ones lead nowhere
+  assertEquals(
+    await match(["/items/5/edit", "/items/new/edit", "/items/5.json/edit", "/items/5/edit/more", "/items/new/more"]),
+    ["edit 5", "edit new", "edit 5.json", "greedy edit/more", "greedy more"],
+  );
+
+  const error = (() => {
+    try {
+      router.get("/items/{name}", (_, respond) => respond(200, "application/json")("ambiguous"));
+    } catch (error) {
+      return error as Error;
+    }
+  })();
+
+  assertEquals(
+    error?.message,
+    "Ambiguous route for the combination of method=get path=/items/{name}, which matches the same requests as path=/items/{id}",
+  );
+});
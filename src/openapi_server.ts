@@ -1,23 +1,94 @@
-import { OpenapiEndpoints, OpenapiEndpointTypeBag, transformRecordToStringValues } from "./openapi_endpoint.ts";
-import { OpenapiGenerator } from "./generator/openapi_generator.ts";
-import { OpenapiRegistry, ZodRouteConfig } from "./openapi_registry.ts";
 import {
-  extractRequestBodySchema,
+  OpenapiEndpoints,
+  OpenapiEndpointTypeBag,
+  openapiRequestValidationErrorResponse,
+  transformRecordToStringValues,
+} from "./openapi_endpoint.ts";
+import { OpenapiGenerator, OpenapiGeneratorOptions, OpenapiObjectConfig } from "./generator/openapi_generator.ts";
+import { stringifyYaml } from "./lib/yaml.ts";
+import { OpenapiDocsPageTheme, renderDocsPage } from "./runtime/docs_page.ts";
+import { OpenapiRegistry, ZodResponseConfig, ZodRouteConfig } from "./openapi_registry.ts";
+import { createProblemResponse, OPENAPI_PROBLEM_MEDIA_TYPE, OpenapiProblemDetailsSchema } from "./openapi_problem.ts";
+import {
+  extractRequestBodySchemaMap,
+  extractRequestCookiesSchema,
   extractRequestHeadersSchema,
   extractRequestParamsSchema,
   extractRequestQuerySchema,
+  OpenapiRequestParamKeySchema,
+  OpenapiRequestQueryKeySchema,
+  RequestBodySchemaMap,
 } from "./runtime/request.ts";
+import { parseQueryParameter } from "./runtime/query.ts";
+import { parsePathParameter } from "./runtime/path.ts";
+import { PathTree } from "./runtime/path_tree.ts";
+import { isJsonMediaType, matchMediaType, parseRequestBody } from "./runtime/request_body.ts";
 import { ExtractEndpointPaths, MaybeRecord, OpenapiRouteConfig, Simplify, TypedResponse } from "./types/shared.ts";
 import { z, ZodError, ZodType } from "./zod.ts";
-
-export interface OpenapiServerRequestContext<P, Q, H, B> {
+import {
+  OpenapiEmptyMiddlewareState,
+  OpenapiMiddleware,
+  OpenapiMiddlewareState,
+  runMiddlewares,
+} from "./openapi_middleware.ts";
+import {
+  AnyOpenapiSecurityVerifier,
+  OpenapiAuthType,
+  OpenapiSecurityPrincipalMap,
+  OpenapiSecurityRequirement,
+  OpenapiSecuritySchemeObject,
+} from "./openapi_security.ts";
+import { extractSecurityCredentials } from "./runtime/security.ts";
+import { parseCookieHeader, renderSetCookieHeader } from "./runtime/cookies.ts";
+import { AcceptedMediaRange, negotiateMediaTypes, parseAcceptHeader } from "./runtime/negotiation.ts";
+import { SecurityRequirementObject } from "./types/spec/openapi.ts";
+import { extractResponseSchemaMap, ResponseSchemaMap, toOutputSchema } from "./runtime/response.ts";
+import { OpenapiCorsOptions } from "./openapi_cors.ts";
+import { defaultOpenapiJsonCodec, OpenapiJsonCodec } from "./openapi_codec.ts";
+import {
+  appendCorsVaryHeader,
+  applyCorsHeaders,
+  extractCorsExposedHeaderNames,
+  extractCorsRequestHeaderNames,
+  OpenapiResolvedCorsPolicy,
+  resolveCorsPolicy,
+} from "./runtime/cors.ts";
+
+export interface OpenapiServerRequestContext<
+  P,
+  Q,
+  H,
+  B,
+  S = OpenapiEmptyMiddlewareState,
+  AU = undefined,
+  C = never,
+> {
   url: URL;
   params: P;
   query: Q;
   headers: H;
+  cookies: C;
   body: B;
+  /**
+   * The media types declared by the endpoint responses which are acceptable to the client,
+   * most preferred first according to the Accept header
+   */
+  accepts: string[];
   request: Request;
   connInfo: Deno.ServeHandlerInfo;
+  state: S;
+  auth: AU;
+}
+
+export interface OpenapiSetCookieAttributes {
+  expires?: Date;
+  maxAge?: number;
+  domain?: string;
+  path?: string;
+  secure?: boolean;
+  httpOnly?: boolean;
+  sameSite?: "Strict" | "Lax" | "None";
+  partitioned?: boolean;
 }
 
 export class RawResponse extends Response {
@@ -30,12 +101,116 @@ export class RawResponse extends Response {
   }
 }
 
-type OpenapiRequestValidationErrorSource = "params" | "query" | "headers" | "body";
+type OpenapiRequestValidationErrorSource = "params" | "query" | "headers" | "cookies" | "body";
+
+type OpenapiResponseValidationErrorSource = "status" | "mediaType" | "body" | "headers";
+
+export class OpenapiServerResponseValidationError extends Error {
+  readonly name = OpenapiServerResponseValidationError.name;
+  constructor(
+    readonly source: OpenapiResponseValidationErrorSource,
+    readonly status: number,
+    readonly mediaType: string,
+    readonly error?: ZodError<unknown>,
+  ) {
+    super(`Response with status=${status} mediaType=${mediaType} does not match the declared ${source}`);
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Thrown by a handler to answer with one of the responses declared by its endpoint, which the router always checks
+ * the same way as the strict response validation does: the fields which are not declared are stripped, and a status,
+ * media type or body which is not declared is handed to `onError`, or answered with a 500.
+ * Without a media type, the declared response has no content.
+ */
+export class HttpError<S extends number = number, M extends string = string, D = unknown> extends Error {
+  readonly name = HttpError.name;
+  constructor(readonly status: S, readonly mediaType?: M, readonly data?: D, readonly headers?: HeadersInit) {
+    super(`HTTP error with status=${status}`);
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export interface OpenapiErrorContext {
+  url: URL;
+  request: Request;
+}
+
+/**
+ * Answers the exceptions thrown while handling a request, or returns undefined to fall back to the default 500
+ */
+export type OpenapiErrorHandler = (error: unknown, ctx: OpenapiErrorContext) => MaybePromise<Response | undefined>;
+
+export type OpenapiAllowedMethod = Uppercase<ZodRouteConfig["method"]>;
+
+export interface OpenapiAllowedMethodsContext {
+  url: URL;
+  request: Request;
+  /**
+   * Every method the requested path can be requested with, including the automatically handled `OPTIONS`
+   */
+  allow: OpenapiAllowedMethod[];
+}
+
+export type OpenapiAllowedMethodsHandler = (ctx: OpenapiAllowedMethodsContext) => MaybePromise<Response>;
+
+export type { OpenapiDocsPageTheme };
+
+export interface OpenapiDocsPageOptions {
+  /**
+   * Defaults to `/docs`
+   */
+  path?: string;
+  /**
+   * Defaults to the title of the document
+   */
+  title?: string;
+  /**
+   * Defaults to `auto`, following the color scheme preferred by the browser
+   */
+  theme?: OpenapiDocsPageTheme;
+  /**
+   * The base URL the "try it out" requests are sent to, defaults to the origin of the page, `false` to disable them
+   */
+  tryItOutBaseUrl?: string | false;
+}
+
+export type OpenapiResponseValidationMode = "strict" | "log-only" | "sampled";
+
+export interface OpenapiResponseValidationOptions {
+  /**
+   * - `strict`: every response is validated, a mismatching one is replaced by a 500
+   * - `log-only`: every response is validated, a mismatching one is sent as is
+   * - `sampled`: like `log-only`, for a `sampleRate` fraction of the responses
+   */
+  mode: OpenapiResponseValidationMode;
+  /**
+   * The fraction of the responses validated in the `sampled` mode, defaults to 0.1
+   */
+  sampleRate?: number;
+  /**
+   * Called for every mismatching response, defaults to logging the error to the console
+   */
+  onMismatch?: (
+    error: OpenapiServerResponseValidationError,
+    ctx: { request: Request; path: string; method: string },
+  ) => void;
+}
 
-type RequestContextType<Bag> = Bag extends
+type RequestCookiesType<Bag> = Bag extends { request: { cookies: infer C } } ? C : never;
+
+type RequestContextType<Bag, S, AU> = Bag extends
   OpenapiEndpointTypeBag<infer P, infer Q, infer H, infer B, unknown, unknown, unknown>
-  ? OpenapiServerRequestContext<P, Q, H, B>
-  : OpenapiServerRequestContext<unknown, unknown, unknown, unknown>;
+  ? OpenapiServerRequestContext<P, Q, H, B, S, AU, RequestCookiesType<Bag>>
+  : OpenapiServerRequestContext<unknown, unknown, unknown, unknown, S, AU, unknown>;
+
+type RequestAuthType<Bag, V extends AnyOpenapiSecurityVerifier[], D> = Bag extends {
+  security: {
+    requirement: infer SR;
+  };
+} ? OpenapiAuthType<SR, OpenapiSecurityPrincipalMap<V>, D>
+  : undefined;
 
 type MaybePromise<T> = Promise<T> | T;
 
@@ -72,34 +247,87 @@ type ServerResponderFactory<Bag> = <
   mediaType: M,
 ) => ServerResponder<S, M, B, H>;
 
+type NegotiatedServerResponse<S extends number, BM, K extends string, H> = {
+  [M in K]: ServerResponse<S, M, M extends keyof BM ? BM[M] : never, H>;
+}[K];
+
+type NegotiatedHeadersArgs<H> = unknown extends H ? [headers?: HeadersInit] : [headers: H];
+
+type NegotiatedHeaders<H> = unknown extends H ? HeadersInit : H;
+
+type ServerNegotiatedResponderFactory<Bag> = <
+  BM extends ResponseBodyByStatusAndMediaMap<Bag>,
+  S extends Extract<keyof BM, number>,
+  F extends { [M in Extract<keyof BM[S], string>]?: () => BM[S][M] },
+>(
+  status: S,
+  bodies: F & { [K in Exclude<keyof F, keyof BM[S]>]: never },
+  ...headers: NegotiatedHeadersArgs<ResponseHeadersByStatus<ResponseHeadersByStatusMap<Bag>, S>>
+) => NegotiatedServerResponse<
+  S,
+  BM[S],
+  Extract<keyof F, string>,
+  NegotiatedHeaders<ResponseHeadersByStatus<ResponseHeadersByStatusMap<Bag>, S>>
+>;
+
 const genericResponderFactory = (status: number, mediaType: string) => (body: unknown, headers: unknown) =>
   new ServerResponse(status, mediaType, body, headers);
 
-type QuerySchema = {
-  key: string;
-  schema: ZodType;
-  isArray: boolean;
-};
+/**
+ * Only the body of the media type most preferred by the client is created. When none of the given media types
+ * is acceptable, the first one is used: the router has already rejected requests which accept none of the media types
+ * declared by the endpoint.
+ */
+const createNegotiatedResponderFactory =
+  (accepted: AcceptedMediaRange[]) => (status: number, bodies: Record<string, () => unknown>, headers?: unknown) => {
+    const mediaTypes = Object.keys(bodies);
+    const mediaType = negotiateMediaTypes(accepted, mediaTypes)[0] ?? mediaTypes[0];
+
+    return new ServerResponse(status, mediaType, bodies[mediaType](), headers);
+  };
 
-type OpenapiRoute<Bag> = {
+type OpenapiRoute<Bag, S = OpenapiEmptyMiddlewareState, AU = undefined> = {
   path: string;
-  urlPattern?: URLPattern;
-  paramSchemas?: [string, ZodType][];
-  querySchemas?: QuerySchema[];
+  config: OpenapiRouteConfig<string>;
+  security?: SecurityRequirementObject[];
+  paramSchemas?: OpenapiRequestParamKeySchema[];
+  querySchemas?: OpenapiRequestQueryKeySchema[];
   headerSchemas?: [string, ZodType][];
-  bodySchema?: ZodType;
+  cookieSchemas?: [string, ZodType][];
+  bodySchemaMap?: RequestBodySchemaMap;
+  responseMediaTypes: string[];
+  responseSchemaMap?: ResponseSchemaMap;
+  middlewares: OpenapiMiddleware<unknown, OpenapiMiddlewareState>[];
   validationErrorHandler?: (source: OpenapiRequestValidationErrorSource, error: ZodError<unknown>) => Response;
   handler: (
-    request: RequestContextType<Bag>,
+    request: RequestContextType<Bag, S, AU>,
     respond: ServerResponderFactory<Bag>,
+    respondNegotiated: ServerNegotiatedResponderFactory<Bag>,
   ) => MaybePromise<RequestHanderResponseType<Bag>>;
 };
 
+export type OpenapiRouteOptions<S, A extends OpenapiMiddlewareState> = {
+  validationErrorHandler?: OpenapiRoute<unknown>["validationErrorHandler"];
+  /**
+   * A middleware that only runs for this route, after all the global ones
+   */
+  middleware?: OpenapiMiddleware<S, A>;
+};
+
+type ValidationErrorHandlerOrRouteOptions<S, A extends OpenapiMiddlewareState> =
+  | OpenapiRoute<unknown>["validationErrorHandler"]
+  | OpenapiRouteOptions<S, A>;
+
 type EraseRoute<R, M extends ZodRouteConfig["method"], P extends string> = {
   [K in keyof R]: K extends M ? Omit<R[K], P>
     : R[K];
 };
 
+async function computeEtag(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(content));
+  return `"${Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")}"`;
+}
+
 export function memoizePromise<T>(create: () => Promise<T>): typeof create {
   let memoized: Promise<T> | null = null;
 
@@ -111,9 +339,33 @@ export function memoizePromise<T>(create: () => Promise<T>): typeof create {
   };
 }
 
-export class OpenapiRouter<R> {
+export type OpenapiRouterSecurity<V extends AnyOpenapiSecurityVerifier[], D> = {
+  verifiers: [...V];
+  /**
+   * The security requirements applied to every route which does not declare its own `security`
+   */
+  requirements?: D[];
+  unauthorizedHandler?: (requirements: SecurityRequirementObject[]) => Response;
+};
+
+export class OpenapiRouter<
+  R,
+  S = OpenapiEmptyMiddlewareState,
+  V extends AnyOpenapiSecurityVerifier[] = [],
+  D = never,
+> {
   private endpoints: OpenapiEndpoints<R>;
   private defaultValidationErrorHandler = (source: OpenapiRequestValidationErrorSource, error: ZodError<unknown>) => {
+    if (this.problemResponse) {
+      return createProblemResponse({
+        title: "Bad Request",
+        status: 400,
+        detail: "Request validation failed",
+        source,
+        errors: error.errors,
+      });
+    }
+
     return new Response(
       JSON.stringify(
         {
@@ -132,41 +384,258 @@ export class OpenapiRouter<R> {
       },
     );
   };
+  private defaultUnauthorizedHandler = (requirements: SecurityRequirementObject[]) => {
+    const challenges = Array.from(
+      new Set(requirements.flatMap((requirement) =>
+        Object.keys(requirement).flatMap((name) => {
+          const scheme = this.securityVerifierMap.get(name)?.scheme.scheme;
+          return scheme?.type === "http" ? [scheme.scheme.charAt(0).toUpperCase() + scheme.scheme.slice(1)] : [];
+        })
+      )),
+    );
+
+    if (this.problemResponse) {
+      return createProblemResponse(
+        { title: "Unauthorized", status: 401 },
+        challenges.length > 0 ? { "WWW-Authenticate": challenges.join(", ") } : undefined,
+      );
+    }
+
+    return new Response(
+      JSON.stringify(
+        {
+          message: "Unauthorized",
+        },
+        null,
+        2,
+      ),
+      {
+        status: 401,
+        headers: {
+          "Content-Type": "application/json",
+          ...(challenges.length > 0 ? { "WWW-Authenticate": challenges.join(", ") } : {}),
+        },
+      },
+    );
+  };
+  private defaultMethodNotAllowedHandler: OpenapiAllowedMethodsHandler = ({ request, allow }) => {
+    if (this.problemResponse) {
+      return createProblemResponse(
+        { title: "Method Not Allowed", status: 405, detail: `The method ${request.method} is not allowed` },
+        { "Allow": allow.join(", ") },
+      );
+    }
+
+    return new Response("Method not allowed", {
+      status: 405,
+      headers: {
+        "Allow": allow.join(", "),
+      },
+    });
+  };
+  private defaultOptionsHandler: OpenapiAllowedMethodsHandler = ({ allow }) => {
+    return new Response(null, {
+      status: 204,
+      headers: {
+        "Allow": allow.join(", "),
+      },
+    });
+  };
+  private errorHandler?: OpenapiErrorHandler;
+  private codec: OpenapiJsonCodec;
+  private responseValidation?: OpenapiResponseValidationOptions;
+  private cors?: OpenapiCorsOptions;
+  // Set when the router errors are RFC 9457 problem details, documented by this response
+  private problemResponse?: ZodResponseConfig;
   private registry: OpenapiRegistry;
+  private securityVerifierMap: Map<string, AnyOpenapiSecurityVerifier>;
+  private securityRequirements?: SecurityRequirementObject[];
+  private middlewares: OpenapiMiddleware<unknown, OpenapiMiddlewareState>[] = [];
   private routesByUppercasedMethodMap: Map<string, {
     byPathTemplateMap: Map<string, OpenapiRoute<unknown>>;
-    byPathMap: Map<string, OpenapiRoute<unknown>>;
-    patternList: OpenapiRoute<unknown>[];
+    pathTree: PathTree<OpenapiRoute<unknown>>;
   }>;
 
-  constructor({ endpoints, registry, defaultValidationErrorHandler, openapiSpecPath = "/docs/openapi" }: {
+  constructor({
+    endpoints,
+    registry,
+    defaultValidationErrorHandler,
+    openapiSpecPath = "/docs/openapi",
+    openapiSpecSecurity,
+    document = {
+      openapi: "3.0.0",
+      info: {
+        title: "Test",
+        version: "1.0.0",
+      },
+    },
+    generatorOptions,
+    security,
+    responseValidation,
+    methodNotAllowedHandler,
+    optionsHandler,
+    cors,
+    docsPage,
+    problemDetails = false,
+    onError,
+    codec = defaultOpenapiJsonCodec,
+  }: {
     endpoints: OpenapiEndpoints<R>;
     registry: OpenapiRegistry;
-    openapiSpecPath?: string;
+    /**
+     * Where the generated document is served, as JSON or YAML depending on the Accept header, `false` to disable it
+     */
+    openapiSpecPath?: string | false;
+    /**
+     * The security requirements protecting the generated document, which is public by default
+     */
+    openapiSpecSecurity?: OpenapiSecurityRequirement<V[number]["scheme"]["name"]>[];
+    /**
+     * Everything but the paths and components of the generated document. Its `security` defaults
+     * to the default security requirements of the router.
+     */
+    document?: OpenapiObjectConfig;
+    /**
+     * Options of the generator of the served document, whose OpenAPI version follows `document.openapi`
+     */
+    generatorOptions?: Omit<OpenapiGeneratorOptions, "openapiVersion">;
     defaultValidationErrorHandler?: (source: OpenapiRequestValidationErrorSource, error: ZodError<unknown>) => Response;
+    security?: OpenapiRouterSecurity<V, D>;
+    /**
+     * Validates the responses returned by the handlers against the declared ones, disabled by default
+     */
+    responseValidation?: OpenapiResponseValidationOptions;
+    /**
+     * Handles requests to a known path with a method it does not support, defaults to a 405 with an `Allow` header
+     */
+    methodNotAllowedHandler?: OpenapiAllowedMethodsHandler;
+    /**
+     * Handles `OPTIONS` requests to a known path, defaults to a 204 with an `Allow` header
+     */
+    optionsHandler?: OpenapiAllowedMethodsHandler;
+    /**
+     * Enables CORS, answering the preflight requests from the declared endpoints
+     */
+    cors?: OpenapiCorsOptions;
+    /**
+     * Serves an interactive HTML page browsing the generated document, which does not appear in the document itself.
+     * Note that the page loads the document from the browser, so it can not pass the `openapiSpecSecurity` requirements
+     * unless they are satisfied by cookies.
+     */
+    docsPage?: OpenapiDocsPageOptions;
+    /**
+     * Renders the errors produced by the router itself, from validation failures to unhandled exceptions, as
+     * RFC 9457 `application/problem+json` responses, declared in the generated document for every route.
+     * The routes can then not declare the JSON `openapiRequestValidationErrorResponse`.
+     */
+    problemDetails?: boolean;
+    /**
+     * Called with the exceptions thrown by the handlers and middlewares, except for the `HttpError` matching the
+     * declared responses. Defaults to logging the error to the console and answering with a 500.
+     */
+    onError?: OpenapiErrorHandler;
+    /**
+     * Encodes the JSON bodies of the responses to the wire format of their schemas, e.g. dates to ISO 8601 strings
+     */
+    codec?: OpenapiJsonCodec;
   }) {
     this.registry = registry;
+    this.errorHandler = onError;
+    this.codec = codec;
+
+    if (problemDetails) {
+      this.problemResponse = registry.registerResponse("ProblemDetails", {
+        description: "A problem occurred",
+        content: {
+          [OPENAPI_PROBLEM_MEDIA_TYPE]: {
+            schema: registry.register("ProblemDetails", OpenapiProblemDetailsSchema),
+          },
+        },
+      });
+    }
+
+    this.responseValidation = responseValidation;
+    this.cors = cors;
+
+    if (methodNotAllowedHandler) {
+      this.defaultMethodNotAllowedHandler = methodNotAllowedHandler;
+    }
+
+    if (optionsHandler) {
+      this.defaultOptionsHandler = optionsHandler;
+    }
     this.endpoints = endpoints;
     this.routesByUppercasedMethodMap = new Map();
+    this.securityVerifierMap = new Map(security?.verifiers.map((verifier) => [verifier.scheme.name, verifier]));
+    this.securityRequirements = security?.requirements as SecurityRequirementObject[] | undefined;
 
-    const memorizedDocs = memoizePromise(() => {
-      const generator = new OpenapiGenerator(registry.definitions);
-      const document = generator.generateDocument({
-        openapi: "3.0.0",
-        info: {
-          title: "Test",
-          version: "1.0.0",
-        },
-      });
+    if (security?.unauthorizedHandler) {
+      this.defaultUnauthorizedHandler = security.unauthorizedHandler;
+    }
 
-      return Promise.resolve(
-        new ServerResponse(200, "application/json", document, null),
+    if (openapiSpecPath !== false) {
+      this.addDocsRoute(
+        openapiSpecPath,
+        document,
+        generatorOptions,
+        openapiSpecSecurity,
+        defaultValidationErrorHandler,
       );
+    }
+
+    if (docsPage) {
+      if (openapiSpecPath === false) {
+        throw new Error("The docs page requires the OpenAPI document to be served, openapiSpecPath can not be false");
+      }
+
+      this.addDocsPageRoute(openapiSpecPath, document.info.title, docsPage);
+    }
+
+    if (defaultValidationErrorHandler) {
+      this.defaultValidationErrorHandler = defaultValidationErrorHandler;
+    }
+  }
+
+  private addDocsRoute(
+    path: string,
+    document: OpenapiObjectConfig,
+    generatorOptions: Omit<OpenapiGeneratorOptions, "openapiVersion"> | undefined,
+    security: SecurityRequirementObject[] | undefined,
+    validationErrorHandler: OpenapiRoute<unknown>["validationErrorHandler"],
+  ) {
+    for (const requirement of security ?? []) {
+      for (const name of Object.keys(requirement)) {
+        if (!this.securityVerifierMap.has(name)) {
+          throw new Error(`Missing security verifier for scheme=${name} of the OpenAPI document path=${path}`);
+        }
+      }
+    }
+
+    const securityRequirements = this.securityRequirements;
+    const registry = this.registry;
+
+    const memorizedDocs = memoizePromise(async () => {
+      const generator = new OpenapiGenerator(registry.definitions, {
+        ...generatorOptions,
+        openapiVersion: document.openapi.startsWith("3.1") ? "3.1" : "3.0",
+      });
+      const generated = generator.generateDocument({
+        ...(securityRequirements ? { security: securityRequirements } : {}),
+        ...document,
+      });
+      const json = JSON.stringify(generated, null, 2);
+      const yaml = stringifyYaml(generated);
+
+      return {
+        "application/json": { body: json, etag: await computeEtag(json) },
+        "application/yaml": { body: yaml, etag: await computeEtag(yaml) },
+      };
     });
 
-    this.addRoute({
+    const docsConfig: OpenapiRouteConfig<string> = {
       method: "get",
-      path: openapiSpecPath,
+      path,
+      ...(security ? { security } : securityRequirements ? { security: [] } : {}),
       responses: {
         200: {
           description: "OpenAPI v3 specification",
@@ -174,88 +643,206 @@ export class OpenapiRouter<R> {
             "application/json": {
               schema: z.unknown(),
             },
+            "application/yaml": {
+              schema: z.string(),
+            },
+          },
+        },
+      },
+    };
+
+    const handler = async ({ accepts, request }: OpenapiServerRequestContext<unknown, unknown, unknown, unknown>) => {
+      const mediaType = accepts[0] as "application/json" | "application/yaml";
+      const { body, etag } = (await memorizedDocs())[mediaType];
+      const headers = {
+        "Content-Type": mediaType,
+        "ETag": etag,
+        "Vary": "Accept",
+      };
+
+      if (request.headers.get("if-none-match")?.split(",").some((tag) => tag.trim() === etag)) {
+        return new RawResponse(null, { status: 304, headers });
+      }
+
+      return new RawResponse(body, { status: 200, headers });
+    };
+
+    this.addRoute(docsConfig, {
+      path,
+      config: docsConfig,
+      security: security !== undefined && security.length > 0 ? security : undefined,
+      responseMediaTypes: ["application/json", "application/yaml"],
+      middlewares: [],
+      validationErrorHandler,
+      // deno-lint-ignore no-explicit-any
+      handler: handler as any,
+    });
+  }
+
+  private addDocsPageRoute(
+    specUrl: string,
+    defaultTitle: string,
+    { path = "/docs", title = defaultTitle, theme = "auto", tryItOutBaseUrl = "" }: OpenapiDocsPageOptions,
+  ) {
+    const html = renderDocsPage({
+      title,
+      specUrl,
+      theme,
+      tryItOutBaseUrl: tryItOutBaseUrl === false ? undefined : tryItOutBaseUrl,
+    });
+
+    const docsPageConfig: OpenapiRouteConfig<string> = {
+      method: "get",
+      path,
+      security: [],
+      responses: {
+        200: {
+          description: "Interactive documentation",
+          content: {
+            "text/html": {
+              schema: z.string(),
+            },
           },
         },
       },
-    }, {
-      path: openapiSpecPath,
-      urlPattern: new URLPattern({ pathname: openapiSpecPath.replaceAll(/{([^}]+)}/g, ":$1") }),
-      validationErrorHandler: defaultValidationErrorHandler,
+    };
+
+    this.addRoute(docsPageConfig, {
+      path,
+      config: docsPageConfig,
+      responseMediaTypes: ["text/html"],
+      middlewares: [],
       handler() {
-        return memorizedDocs();
+        return new ServerResponse(200, "text/html", html, { "Content-Type": "text/html; charset=utf-8" });
       },
-    });
+    }, false);
+  }
 
-    if (defaultValidationErrorHandler) {
-      this.defaultValidationErrorHandler = defaultValidationErrorHandler;
-    }
+  /**
+   * Adds a middleware which runs for every route registered after this call,
+   * between route matching and request validation. The state it passes to `next()`
+   * is merged into the `state` of the request context seen by subsequent middlewares and handlers.
+   */
+  use<A extends OpenapiMiddlewareState = OpenapiEmptyMiddlewareState>(
+    middleware: OpenapiMiddleware<S, A>,
+  ): OpenapiRouter<R, Simplify<S & A>, V, D> {
+    this.middlewares.push(middleware as OpenapiMiddleware<unknown, OpenapiMiddlewareState>);
+    return this as OpenapiRouter<R, Simplify<S & A>, V, D>;
   }
 
   get<
     E extends ExtractEndpointPaths<"get", R>,
     P extends Extract<keyof E, string>,
+    A extends OpenapiMiddlewareState = OpenapiEmptyMiddlewareState,
   >(
     path: P,
-    handler: OpenapiRoute<E[P]>["handler"],
-    validationErrorHandler?: OpenapiRoute<E[P]>["validationErrorHandler"],
-  ): OpenapiRouter<EraseRoute<R, "get", P>> {
-    return this.method("get", path, handler, validationErrorHandler);
+    handler: OpenapiRoute<E[P], Simplify<S & A>, RequestAuthType<E[P], V, D>>["handler"],
+    validationErrorHandlerOrOptions?: ValidationErrorHandlerOrRouteOptions<S, A>,
+  ): OpenapiRouter<EraseRoute<R, "get", P>, S, V, D> {
+    return this.method("get", path, handler, validationErrorHandlerOrOptions);
   }
 
   put<
     E extends ExtractEndpointPaths<"put", R>,
     P extends Extract<keyof E, string>,
+    A extends OpenapiMiddlewareState = OpenapiEmptyMiddlewareState,
   >(
     path: P,
-    handler: OpenapiRoute<E[P]>["handler"],
-    validationErrorHandler?: OpenapiRoute<E[P]>["validationErrorHandler"],
+    handler: OpenapiRoute<E[P], Simplify<S & A>, RequestAuthType<E[P], V, D>>["handler"],
+    validationErrorHandlerOrOptions?: ValidationErrorHandlerOrRouteOptions<S, A>,
   ) {
-    return this.method("put", path, handler, validationErrorHandler);
+    return this.method("put", path, handler, validationErrorHandlerOrOptions);
   }
 
   post<
     E extends ExtractEndpointPaths<"post", R>,
     P extends Extract<keyof E, string>,
+    A extends OpenapiMiddlewareState = OpenapiEmptyMiddlewareState,
   >(
     path: P,
-    handler: OpenapiRoute<E[P]>["handler"],
-    validationErrorHandler?: OpenapiRoute<E[P]>["validationErrorHandler"],
+    handler: OpenapiRoute<E[P], Simplify<S & A>, RequestAuthType<E[P], V, D>>["handler"],
+    validationErrorHandlerOrOptions?: ValidationErrorHandlerOrRouteOptions<S, A>,
   ) {
-    return this.method("post", path, handler, validationErrorHandler);
+    return this.method("post", path, handler, validationErrorHandlerOrOptions);
   }
 
   patch<
     E extends ExtractEndpointPaths<"patch", R>,
     P extends Extract<keyof E, string>,
+    A extends OpenapiMiddlewareState = OpenapiEmptyMiddlewareState,
   >(
     path: P,
-    handler: OpenapiRoute<E[P]>["handler"],
-    validationErrorHandler?: OpenapiRoute<E[P]>["validationErrorHandler"],
+    handler: OpenapiRoute<E[P], Simplify<S & A>, RequestAuthType<E[P], V, D>>["handler"],
+    validationErrorHandlerOrOptions?: ValidationErrorHandlerOrRouteOptions<S, A>,
   ) {
-    return this.method("patch", path, handler, validationErrorHandler);
+    return this.method("patch", path, handler, validationErrorHandlerOrOptions);
   }
 
   delete<
     E extends ExtractEndpointPaths<"delete", R>,
     P extends Extract<keyof E, string>,
+    A extends OpenapiMiddlewareState = OpenapiEmptyMiddlewareState,
   >(
     path: P,
-    handler: OpenapiRoute<E[P]>["handler"],
-    validationErrorHandler?: OpenapiRoute<E[P]>["validationErrorHandler"],
+    handler: OpenapiRoute<E[P], Simplify<S & A>, RequestAuthType<E[P], V, D>>["handler"],
+    validationErrorHandlerOrOptions?: ValidationErrorHandlerOrRouteOptions<S, A>,
   ) {
-    return this.method("delete", path, handler, validationErrorHandler);
+    return this.method("delete", path, handler, validationErrorHandlerOrOptions);
+  }
+
+  /**
+   * Overrides the `HEAD` requests otherwise served by the `GET` handler of the same path, without the body
+   */
+  head<
+    E extends ExtractEndpointPaths<"head", R>,
+    P extends Extract<keyof E, string>,
+    A extends OpenapiMiddlewareState = OpenapiEmptyMiddlewareState,
+  >(
+    path: P,
+    handler: OpenapiRoute<E[P], Simplify<S & A>, RequestAuthType<E[P], V, D>>["handler"],
+    validationErrorHandlerOrOptions?: ValidationErrorHandlerOrRouteOptions<S, A>,
+  ) {
+    return this.method("head", path, handler, validationErrorHandlerOrOptions);
+  }
+
+  /**
+   * Overrides the automatic answer to the `OPTIONS` requests of the same path
+   */
+  options<
+    E extends ExtractEndpointPaths<"options", R>,
+    P extends Extract<keyof E, string>,
+    A extends OpenapiMiddlewareState = OpenapiEmptyMiddlewareState,
+  >(
+    path: P,
+    handler: OpenapiRoute<E[P], Simplify<S & A>, RequestAuthType<E[P], V, D>>["handler"],
+    validationErrorHandlerOrOptions?: ValidationErrorHandlerOrRouteOptions<S, A>,
+  ) {
+    return this.method("options", path, handler, validationErrorHandlerOrOptions);
+  }
+
+  trace<
+    E extends ExtractEndpointPaths<"trace", R>,
+    P extends Extract<keyof E, string>,
+    A extends OpenapiMiddlewareState = OpenapiEmptyMiddlewareState,
+  >(
+    path: P,
+    handler: OpenapiRoute<E[P], Simplify<S & A>, RequestAuthType<E[P], V, D>>["handler"],
+    validationErrorHandlerOrOptions?: ValidationErrorHandlerOrRouteOptions<S, A>,
+  ) {
+    return this.method("trace", path, handler, validationErrorHandlerOrOptions);
   }
 
   private method<
     M extends ZodRouteConfig["method"],
     P extends string,
     C,
+    A extends OpenapiMiddlewareState,
   >(
     method: M,
     path: P,
-    handler: OpenapiRoute<C>["handler"],
-    validationErrorHandler?: OpenapiRoute<C>["validationErrorHandler"],
-  ): OpenapiRouter<EraseRoute<R, M, P>> {
+    handler: OpenapiRoute<C, Simplify<S & A>, RequestAuthType<C, V, D>>["handler"],
+    validationErrorHandlerOrOptions?: ValidationErrorHandlerOrRouteOptions<S, A>,
+  ): OpenapiRouter<EraseRoute<R, M, P>, S, V, D> {
     const upperCasedMethod = method.toUpperCase();
 
     if (
@@ -272,15 +859,37 @@ export class OpenapiRouter<R> {
     }
 
     const config = endpoint.config;
-    const patternPath = path.replaceAll(/{([^}]+)}/g, ":$1");
+    const { validationErrorHandler, middleware }: OpenapiRouteOptions<S, A> =
+      typeof validationErrorHandlerOrOptions === "function"
+        ? { validationErrorHandler: validationErrorHandlerOrOptions }
+        : validationErrorHandlerOrOptions ?? {};
+
+    const security = config.security ?? this.securityRequirements;
+
+    for (const requirement of security ?? []) {
+      for (const name of Object.keys(requirement)) {
+        if (!this.securityVerifierMap.has(name)) {
+          throw new Error(`Missing security verifier for scheme=${name} of path=${path} method=${method}`);
+        }
+      }
+    }
 
     const route: OpenapiRoute<unknown> = {
       path,
-      urlPattern: path !== patternPath ? new URLPattern({ pathname: patternPath }) : undefined,
+      config,
+      security: security !== undefined && security.length > 0 ? security : undefined,
       querySchemas: extractRequestQuerySchema(config),
       paramSchemas: extractRequestParamsSchema(config),
       headerSchemas: extractRequestHeadersSchema(config),
-      bodySchema: extractRequestBodySchema(config),
+      cookieSchemas: extractRequestCookiesSchema(config),
+      bodySchemaMap: extractRequestBodySchemaMap(config),
+      responseMediaTypes: Array.from(
+        new Set(Object.values(config.responses ?? {}).flatMap((response) => Object.keys(response.content ?? {}))),
+      ),
+      responseSchemaMap: extractResponseSchemaMap(config),
+      middlewares: middleware
+        ? [...this.middlewares, middleware as OpenapiMiddleware<unknown, OpenapiMiddlewareState>]
+        : [...this.middlewares],
       validationErrorHandler,
       // deno-lint-ignore no-explicit-any
       handler: handler as any,
@@ -289,89 +898,488 @@ export class OpenapiRouter<R> {
     return this.addRoute(config, route);
   }
 
-  private notFound() {
+  private notFound(url: URL) {
+    if (this.problemResponse) {
+      return createProblemResponse({ title: "Not Found", status: 404, detail: `No route matches ${url.pathname}` });
+    }
+
     return new Response("Not found", {
       status: 404,
     });
   }
 
-  private addRoute(config: OpenapiRouteConfig<string>, route: OpenapiRoute<unknown>) {
+  private notAcceptable() {
+    if (this.problemResponse) {
+      return createProblemResponse({
+        title: "Not Acceptable",
+        status: 406,
+        detail: "None of the media types of the responses is acceptable",
+      });
+    }
+
+    return new Response("Not acceptable", {
+      status: 406,
+    });
+  }
+
+  private unsupportedMediaType(bodySchemaMap: RequestBodySchemaMap) {
+    const headers = { "Accept": Array.from(bodySchemaMap.keys()).join(", ") };
+
+    if (this.problemResponse) {
+      return createProblemResponse({
+        title: "Unsupported Media Type",
+        status: 415,
+        detail: `The request body must be one of ${headers.Accept}`,
+      }, headers);
+    }
+
+    return new Response("Unsupported media type", {
+      status: 415,
+      headers,
+    });
+  }
+
+  /**
+   * The responses the router itself may answer the route with, when they are problem details
+   */
+  private problemResponsesOf(route: OpenapiRoute<unknown>): ZodRouteConfig["responses"] {
+    if (!this.problemResponse) {
+      return {};
+    }
+
+    const { paramSchemas, querySchemas, headerSchemas, cookieSchemas, bodySchemaMap } = route;
+    const validated = [paramSchemas, querySchemas, headerSchemas, cookieSchemas, bodySchemaMap]
+      .some((schemas) => schemas !== undefined && (Array.isArray(schemas) ? schemas.length > 0 : schemas.size > 0));
+
+    return {
+      ...(validated ? { 400: this.problemResponse } : {}),
+      ...(route.security !== undefined && route.security.length > 0 ? { 401: this.problemResponse } : {}),
+      ...(route.responseMediaTypes.length > 0 ? { 406: this.problemResponse } : {}),
+      ...(bodySchemaMap !== undefined ? { 415: this.problemResponse } : {}),
+      500: this.problemResponse,
+    };
+  }
+
+  private addRoute(config: OpenapiRouteConfig<string>, route: OpenapiRoute<unknown>, documented = true) {
     const { method, path } = config;
 
+    // Would document a JSON 400 where the router answers with problem details, and override their declaration
+    if (this.problemResponse && config.responses?.[400] === openapiRequestValidationErrorResponse) {
+      throw new Error(
+        `The 400 response of method=${method} path=${path} is openapiRequestValidationErrorResponse, which is JSON ` +
+          `while the router answers the validation errors with problem details, remove it to have them declared`,
+      );
+    }
+
     const upperCasedMethod = method.toUpperCase();
 
     if (!this.routesByUppercasedMethodMap.has(upperCasedMethod)) {
       this.routesByUppercasedMethodMap.set(upperCasedMethod, {
-        byPathMap: new Map(),
         byPathTemplateMap: new Map(),
-        patternList: [],
+        pathTree: new PathTree(),
       });
     }
 
     const routes = this.routesByUppercasedMethodMap.get(upperCasedMethod)!;
 
-    routes.byPathTemplateMap.set(path, route);
+    const ambiguousRoute = routes.pathTree.insert(path, route);
 
-    if (route.urlPattern !== undefined) {
-      routes.patternList.push(route);
-    } else {
-      routes.byPathMap.set(route.path, route);
+    if (ambiguousRoute !== undefined) {
+      throw new Error(
+        `Ambiguous route for the combination of method=${method} path=${path}, ` +
+          `which matches the same requests as path=${ambiguousRoute.path}`,
+      );
     }
 
-    this.registry.registerPath({
-      ...config,
-      responses: config.responses ?? {},
-    });
+    routes.byPathTemplateMap.set(path, route);
+
+    if (documented) {
+      this.registry.registerPath({
+        ...config,
+        responses: { ...this.problemResponsesOf(route), ...config.responses },
+      });
+    }
 
     return this;
   }
 
+  private matchRoute(uppercasedMethod: string, url: URL) {
+    const routes = this.routesByUppercasedMethodMap.get(uppercasedMethod);
+
+    if (!routes) {
+      return;
+    }
+
+    const match = routes.pathTree.match(url.pathname);
+
+    if (match) {
+      return { route: match.value, params: match.params };
+    }
+  }
+
   async handle(request: Request, connInfo: Deno.ServeHandlerInfo): Promise<Response> {
     const url = new URL(request.url);
-    const pathname = url.pathname;
-    const routes = this.routesByUppercasedMethodMap.get(request.method);
+    const origin = request.headers.get("origin");
+    const corsPolicy = this.cors !== undefined && origin !== null
+      ? resolveCorsPolicy(this.cors, origin, request)
+      : undefined;
 
-    if (!routes) {
-      return this.notFound();
+    if (corsPolicy && request.method === "OPTIONS" && request.headers.has("access-control-request-method")) {
+      const preflightResponse = this.preflight(url, request, corsPolicy);
+
+      if (preflightResponse) {
+        return preflightResponse;
+      }
+    }
+
+    const { response, route } = await this.dispatchSafely(url, request, connInfo);
+
+    if (this.cors === undefined) {
+      return response;
+    }
+
+    // Copied, as the headers of the response returned by a handler may be immutable
+    const corsResponse = new Response(response.body, response);
+
+    if (corsPolicy) {
+      const exposedHeaderNames = route ? extractCorsExposedHeaderNames(route.config) : [];
+
+      applyCorsHeaders(corsResponse.headers, corsPolicy);
+
+      if (exposedHeaderNames.length > 0) {
+        corsResponse.headers.set("access-control-expose-headers", exposedHeaderNames.join(", "));
+      }
+    }
+
+    appendCorsVaryHeader(corsResponse.headers, this.cors);
+
+    return corsResponse;
+  }
+
+  private async dispatchSafely(
+    url: URL,
+    request: Request,
+    connInfo: Deno.ServeHandlerInfo,
+  ): Promise<{ response: Response; route?: OpenapiRoute<unknown> }> {
+    try {
+      return await this.dispatch(url, request, connInfo);
+    } catch (error) {
+      if (!this.errorHandler) {
+        console.error(error);
+        return { response: this.internalServerError() };
+      }
+
+      try {
+        return { response: await this.errorHandler(error, { url, request }) ?? this.internalServerError() };
+      } catch (handlerError) {
+        // The original error would otherwise be lost along with the one of the handler
+        console.error(new AggregateError([error, handlerError], "The onError handler failed"));
+        return { response: this.internalServerError() };
+      }
+    }
+  }
+
+  private internalServerError() {
+    if (this.problemResponse) {
+      return createProblemResponse({ title: "Internal Server Error", status: 500 });
+    }
+
+    return new Response(
+      JSON.stringify(
+        {
+          message: "Internal Server Error",
+        },
+        null,
+        2,
+      ),
+      {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      },
+    );
+  }
+
+  private async dispatch(
+    url: URL,
+    request: Request,
+    connInfo: Deno.ServeHandlerInfo,
+  ): Promise<{ response: Response; route?: OpenapiRoute<unknown> }> {
+    let match = this.matchRoute(request.method, url);
+
+    // HEAD requests are served by the GET handler unless a HEAD one is registered
+    if (!match && request.method === "HEAD") {
+      match = this.matchRoute("GET", url);
+
+      if (match) {
+        const response = await this.handleMatch(match, url, request, connInfo);
+        await response.body?.cancel();
+        return { response: new Response(null, response), route: match.route };
+      }
+    }
+
+    if (!match) {
+      const allow = this.findAllowedMethods(url);
+
+      if (allow.length === 0) {
+        return { response: this.notFound(url) };
+      }
+
+      return {
+        response: await (request.method === "OPTIONS"
+          ? this.defaultOptionsHandler({ url, request, allow })
+          : this.defaultMethodNotAllowedHandler({ url, request, allow })),
+      };
+    }
+
+    return { response: await this.handleMatch(match, url, request, connInfo), route: match.route };
+  }
+
+  /**
+   * Answers a CORS preflight request from the declaration of the endpoint matching the requested method,
+   * or leaves it to the regular handling when the path is unknown
+   */
+  private preflight(url: URL, request: Request, corsPolicy: OpenapiResolvedCorsPolicy): Response | undefined {
+    const allow = this.findAllowedMethods(url);
+
+    if (allow.length === 0) {
+      return;
+    }
+
+    const requestedMethod = request.headers.get("access-control-request-method")!.toUpperCase();
+    const match = this.matchRoute(requestedMethod, url) ??
+      (requestedMethod === "HEAD" ? this.matchRoute("GET", url) : undefined);
+    const headers = new Headers({
+      "access-control-allow-methods": allow.join(", "),
+    });
+
+    if (match) {
+      const securitySchemes = (match.route.security ?? [])
+        .flatMap((requirement) => Object.keys(requirement))
+        .map((name) => this.securityVerifierMap.get(name)!.scheme.scheme as OpenapiSecuritySchemeObject);
+      const requestHeaderNames = extractCorsRequestHeaderNames(match.route.config, securitySchemes);
+
+      if (requestHeaderNames.length > 0) {
+        headers.set("access-control-allow-headers", requestHeaderNames.join(", "));
+      }
+    }
+
+    if (corsPolicy.maxAge !== undefined) {
+      headers.set("access-control-max-age", String(corsPolicy.maxAge));
+    }
+
+    applyCorsHeaders(headers, corsPolicy);
+    appendCorsVaryHeader(headers, this.cors!);
+
+    return new Response(null, {
+      status: 204,
+      headers,
+    });
+  }
+
+  private async handleMatch(
+    { route, params }: { route: OpenapiRoute<unknown>; params?: Record<string, string | undefined> },
+    url: URL,
+    request: Request,
+    connInfo: Deno.ServeHandlerInfo,
+  ): Promise<Response> {
+    try {
+      if (route.middlewares.length === 0) {
+        return await this.handleRoute(route, { url, request, connInfo, params, state: {} });
+      }
+
+      return await runMiddlewares(
+        route.middlewares,
+        { url, request, connInfo, path: route.path, config: route.config, state: {} },
+        (state) => this.handleRoute(route, { url, request, connInfo, params, state }),
+      );
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return this.respondHttpError(route, error);
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * An `HttpError` is always checked against the declared responses, whether the response validation is enabled
+   * or not, and a mismatching one is thrown again as an `OpenapiServerResponseValidationError`
+   */
+  private respondHttpError(route: OpenapiRoute<unknown>, { status, mediaType, data, headers }: HttpError): Response {
+    if (mediaType === undefined) {
+      const declared = route.config.responses?.[status];
+
+      if (declared === undefined) {
+        throw new OpenapiServerResponseValidationError("status", status, "");
+      }
+
+      if (declared.content !== undefined && Object.keys(declared.content).length > 0) {
+        throw new OpenapiServerResponseValidationError("mediaType", status, "");
+      }
+
+      return new Response(null, { status, headers });
+    }
+
+    const validation = this.checkResponse(route, new ServerResponse(status, mediaType, data, headers));
+
+    if (validation instanceof OpenapiServerResponseValidationError) {
+      throw validation;
+    }
+
+    return this.toEncodedResponse(route, validation);
+  }
+
+  private findAllowedMethods(url: URL): OpenapiAllowedMethod[] {
+    const allow: OpenapiAllowedMethod[] = [];
+
+    for (const [method, routes] of this.routesByUppercasedMethodMap) {
+      if (routes.pathTree.match(url.pathname) !== undefined) {
+        allow.push(method as OpenapiAllowedMethod);
+      }
     }
 
-    let matchedRoute: OpenapiRoute<unknown> | undefined;
-    let params: Record<string, string | undefined> | undefined;
+    if (allow.length === 0) {
+      return allow;
+    }
 
-    matchedRoute = routes.byPathMap.get(pathname);
+    if (allow.includes("GET") && !allow.includes("HEAD")) {
+      allow.push("HEAD");
+    }
+
+    if (!allow.includes("OPTIONS")) {
+      allow.push("OPTIONS");
+    }
 
-    if (!matchedRoute) {
-      matchedRoute = routes.patternList.find((r) => r.urlPattern!.test(url));
-      if (matchedRoute) {
-        params = matchedRoute.urlPattern!.exec(url)!.pathname.groups;
+    return allow;
+  }
+
+  /**
+   * Tries each alternative security requirement in order, returning the principals of the first one
+   * for which all the schemes are satisfied
+   */
+  private async authenticate(
+    requirements: SecurityRequirementObject[],
+    url: URL,
+    request: Request,
+  ): Promise<Record<string, unknown> | Response> {
+    for (const requirement of requirements) {
+      const principals: Record<string, unknown> = {};
+      let satisfied = true;
+
+      for (const [name, scopes] of Object.entries(requirement)) {
+        const { scheme, verify } = this.securityVerifierMap.get(name)!;
+        const credentials = extractSecurityCredentials(scheme.scheme as OpenapiSecuritySchemeObject, request, url);
+
+        if (credentials === undefined) {
+          satisfied = false;
+          break;
+        }
+
+        const principal = await verify(credentials, { url, request, scopes });
+
+        if (principal instanceof Response) {
+          return principal;
+        }
+
+        if (principal === undefined) {
+          satisfied = false;
+          break;
+        }
+
+        principals[name] = principal;
+      }
+
+      if (satisfied) {
+        return principals;
       }
     }
 
-    if (!matchedRoute) {
-      return this.notFound();
+    return this.defaultUnauthorizedHandler(requirements);
+  }
+
+  private async handleRoute(
+    matchedRoute: OpenapiRoute<unknown>,
+    { url, request, connInfo, params, state }: {
+      url: URL;
+      request: Request;
+      connInfo: Deno.ServeHandlerInfo;
+      params?: Record<string, string | undefined>;
+      state: OpenapiMiddlewareState;
+    },
+  ): Promise<Response> {
+    const { paramSchemas, querySchemas, headerSchemas, cookieSchemas, bodySchemaMap } = matchedRoute;
+
+    let auth: Record<string, unknown> | undefined;
+
+    if (matchedRoute.security) {
+      const authentication = await this.authenticate(matchedRoute.security, url, request);
+
+      if (authentication instanceof Response) {
+        return authentication;
+      }
+
+      auth = authentication;
     }
 
-    const { paramSchemas, querySchemas, headerSchemas, bodySchema } = matchedRoute;
+    const accepted = parseAcceptHeader(request.headers.get("accept"));
+    const accepts = negotiateMediaTypes(accepted, matchedRoute.responseMediaTypes);
+
+    if (matchedRoute.responseMediaTypes.length > 0 && accepts.length === 0) {
+      return this.notAcceptable();
+    }
 
     const validationErrorHandler = matchedRoute.validationErrorHandler ?? this.defaultValidationErrorHandler;
 
     const searchParams = url.searchParams;
     const headers = Object.fromEntries(request.headers.entries());
-    const body = bodySchema !== undefined ? await request.json() : request.body;
+    let body: unknown = request.body;
+    let bodyMediaType: string | undefined;
+
+    if (bodySchemaMap !== undefined) {
+      // Without a Content-Type, the first declared media type is assumed
+      const contentType = request.headers.get("content-type");
+      bodyMediaType = contentType !== null
+        ? matchMediaType(bodySchemaMap.keys(), contentType)
+        : bodySchemaMap.keys().next().value;
+
+      if (bodyMediaType === undefined) {
+        return this.unsupportedMediaType(bodySchemaMap);
+      }
+
+      try {
+        body = request.body !== null
+          ? await parseRequestBody(request, contentType ?? bodyMediaType, bodySchemaMap.get(bodyMediaType))
+          : undefined;
+      } catch {
+        return validationErrorHandler(
+          "body",
+          new ZodError([{
+            code: z.ZodIssueCode.custom,
+            path: [],
+            message: `The request body could not be parsed as ${bodyMediaType}`,
+          }]),
+        );
+      }
+    }
 
     const validatedParams: [string, unknown][] = [];
     const validatedQuery: [string, unknown][] = [];
     const validatedHeaders: [string, unknown][] = [];
+    const validatedCookies: [string, unknown][] = [];
     let validatedBody: unknown = body;
 
     if (paramSchemas) {
       const validatingParams = params ?? {};
 
-      for (const [key, schema] of paramSchemas) {
-        const paramValidation = schema.safeParse(validatingParams[key]);
+      for (const paramSchema of paramSchemas) {
+        const paramValidation = paramSchema.schema.safeParse(
+          parsePathParameter(validatingParams[paramSchema.key], paramSchema),
+        );
 
         if (paramValidation.success) {
-          validatedParams.push([key, paramValidation.data]);
+          validatedParams.push([paramSchema.key, paramValidation.data]);
         } else {
           return validationErrorHandler("params", paramValidation.error);
         }
@@ -379,12 +1387,11 @@ export class OpenapiRouter<R> {
     }
 
     if (querySchemas) {
-      for (const { key, schema, isArray } of querySchemas) {
-        const rawValue = isArray ? searchParams.getAll(key) : searchParams.get(key);
-        const queryValidation = schema.safeParse(rawValue);
+      for (const querySchema of querySchemas) {
+        const queryValidation = querySchema.schema.safeParse(parseQueryParameter(searchParams, querySchema));
 
         if (queryValidation.success) {
-          validatedQuery.push([key, queryValidation.data]);
+          validatedQuery.push([querySchema.key, queryValidation.data]);
         } else {
           return validationErrorHandler("query", queryValidation.error);
         }
@@ -405,40 +1412,225 @@ export class OpenapiRouter<R> {
       }
     }
 
-    if (bodySchema) {
-      const bodyValidation = bodySchema.safeParse(body);
+    if (cookieSchemas) {
+      const cookies = parseCookieHeader(request.headers.get("cookie"));
+
+      for (const [key, schema] of cookieSchemas) {
+        const cookieValidation = schema.safeParse(cookies[key]);
 
-      if (bodyValidation.success) {
-        validatedBody = bodyValidation.data;
-      } else {
-        return validationErrorHandler("body", bodyValidation.error);
+        if (cookieValidation.success) {
+          validatedCookies.push([key, cookieValidation.data]);
+        } else {
+          return validationErrorHandler("cookies", cookieValidation.error);
+        }
       }
     }
 
-    const ctx: OpenapiServerRequestContext<unknown, unknown, unknown, unknown> = {
+    if (bodySchemaMap !== undefined && bodyMediaType !== undefined) {
+      const bodySchema = bodySchemaMap.get(bodyMediaType);
+
+      if (bodySchema) {
+        const bodyValidation = bodySchema.safeParse(body);
+
+        if (bodyValidation.success) {
+          validatedBody = bodyValidation.data;
+        } else {
+          return validationErrorHandler("body", bodyValidation.error);
+        }
+      }
+
+      // Endpoints accepting multiple media types get a body discriminated by the media type
+      if (bodySchemaMap.size > 1) {
+        validatedBody = { mediaType: bodyMediaType, data: validatedBody };
+      }
+    }
+
+    const ctx: OpenapiServerRequestContext<unknown, unknown, unknown, unknown, unknown, unknown, unknown> = {
       url,
       params: Object.fromEntries(validatedParams),
       query: Object.fromEntries(validatedQuery),
       headers: Object.fromEntries(validatedHeaders),
+      cookies: Object.fromEntries(validatedCookies),
       body: validatedBody,
+      accepts,
       request,
       connInfo,
+      state,
+      auth,
     };
 
-    const maybePromise = matchedRoute.handler(ctx, genericResponderFactory as ServerResponderFactory<unknown>);
+    const maybePromise = matchedRoute.handler(
+      ctx as OpenapiServerRequestContext<unknown, unknown, unknown, unknown>,
+      genericResponderFactory as ServerResponderFactory<unknown>,
+      createNegotiatedResponderFactory(accepted) as ServerNegotiatedResponderFactory<unknown>,
+    );
     const typedResponse = (maybePromise instanceof Promise) ? await maybePromise : maybePromise;
-    return typedResponse.toResponse();
+
+    if (!(typedResponse instanceof ServerResponse)) {
+      // Raw responses are sent as they are
+      return (typedResponse as RawResponse).toResponse();
+    }
+
+    if (this.responseValidation) {
+      return this.validateResponse(this.responseValidation, matchedRoute, request, typedResponse);
+    }
+
+    return this.toEncodedResponse(matchedRoute, typedResponse);
+  }
+
+  private validateResponse(
+    { mode, sampleRate = 0.1, onMismatch = (error) => console.error(error) }: OpenapiResponseValidationOptions,
+    route: OpenapiRoute<unknown>,
+    request: Request,
+    response: ServerResponse<number, string, unknown, unknown>,
+  ): Response {
+    if (mode === "sampled" && Math.random() >= sampleRate) {
+      return this.toEncodedResponse(route, response);
+    }
+
+    const validation = this.checkResponse(route, response);
+
+    if (!(validation instanceof OpenapiServerResponseValidationError)) {
+      return this.toEncodedResponse(route, validation);
+    }
+
+    onMismatch(validation, { request, path: route.path, method: route.config.method });
+
+    if (mode !== "strict") {
+      return this.toEncodedResponse(route, response);
+    }
+
+    if (this.problemResponse) {
+      return createProblemResponse({
+        title: "Internal Server Error",
+        status: 500,
+        detail: "Response validation failed",
+        source: validation.source,
+        errors: validation.error?.errors ?? [],
+      });
+    }
+
+    return new Response(
+      JSON.stringify(
+        {
+          message: "Response validation failed",
+          source: validation.source,
+          errors: validation.error?.errors ?? [],
+        },
+        null,
+        2,
+      ),
+      {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      },
+    );
+  }
+
+  /**
+   * Encodes the JSON bodies to the wire format of their declared schema
+   */
+  private toEncodedResponse(
+    { responseSchemaMap }: OpenapiRoute<unknown>,
+    response: ServerResponse<number, string, unknown, unknown>,
+  ): Response {
+    if (!isJsonMediaType(response.mediaType)) {
+      return response.toResponse();
+    }
+
+    const schema = responseSchemaMap?.get(response.status)?.get(response.mediaType)?.body;
+
+    return response.withData(this.codec.encode(response.data, schema)).toResponse();
+  }
+
+  /**
+   * Validates a response against the declared ones, returning a copy of it with the validated body
+   */
+  private checkResponse(
+    { responseSchemaMap }: OpenapiRoute<unknown>,
+    response: ServerResponse<number, string, unknown, unknown>,
+  ): ServerResponse<number, string, unknown, unknown> | OpenapiServerResponseValidationError {
+    const { status, mediaType } = response;
+    const schemas = responseSchemaMap?.get(status);
+    const schema = schemas?.get(mediaType);
+    let mismatch: OpenapiServerResponseValidationError | undefined;
+    let validatedResponse = response;
+
+    if (schemas === undefined) {
+      mismatch = new OpenapiServerResponseValidationError("status", status, mediaType);
+    } else if (schema === undefined) {
+      mismatch = new OpenapiServerResponseValidationError("mediaType", status, mediaType);
+    } else {
+      const headers = response.headers;
+      const headerRecord = typeof headers === "object" && headers !== null && !(headers instanceof Headers) &&
+          !Array.isArray(headers)
+        ? headers as Record<string, unknown>
+        : undefined;
+      const headerList = headerRecord === undefined ? new Headers(headers as HeadersInit | undefined) : undefined;
+
+      for (const [headerName, headerSchema] of schema.headers ?? []) {
+        const headerValue = headerRecord !== undefined ? headerRecord[headerName] : headerList!.get(headerName);
+        const validation = headerSchema.safeParse(headerValue ?? undefined);
+
+        if (!validation.success) {
+          mismatch = new OpenapiServerResponseValidationError("headers", status, mediaType, validation.error);
+          break;
+        }
+      }
+
+      if (mismatch === undefined && schema.body) {
+        // The output side runs no transform, parsing it only strips the fields which are not declared
+        const validation = toOutputSchema(schema.body).safeParse(response.data);
+
+        if (validation.success) {
+          validatedResponse = response.withData(validation.data);
+        } else {
+          mismatch = new OpenapiServerResponseValidationError("body", status, mediaType, validation.error);
+        }
+      }
+    }
+
+    return mismatch ?? validatedResponse;
   }
 }
 
 export class ServerResponse<S extends number, M extends string, D, H> implements TypedResponse<S, M, D, H> {
+  private setCookieHeaders: string[] = [];
+
   constructor(readonly status: S, readonly mediaType: M, readonly data: D, readonly headers: H) {
   }
 
+  /**
+   * Creates a copy of this response with a different body
+   */
+  withData<D2>(data: D2): ServerResponse<S, M, D2, H> {
+    const response = new ServerResponse(this.status, this.mediaType, data, this.headers);
+    response.setCookieHeaders = [...this.setCookieHeaders];
+    return response;
+  }
+
+  /**
+   * Appends a `Set-Cookie` header to the response
+   */
+  setCookie(name: string, value: string, attributes?: OpenapiSetCookieAttributes): this {
+    this.setCookieHeaders.push(renderSetCookieHeader(name, value, attributes));
+    return this;
+  }
+
+  /**
+   * Appends a `Set-Cookie` header which expires the cookie immediately. The `path` and `domain`
+   * must match the ones the cookie was set with.
+   */
+  deleteCookie(name: string, attributes?: Pick<OpenapiSetCookieAttributes, "path" | "domain">): this {
+    return this.setCookie(name, "", { ...attributes, maxAge: 0, expires: new Date(0) });
+  }
+
   toResponse(): Response {
     let body: BodyInit;
 
-    if (this.mediaType === "application/json") {
+    if (isJsonMediaType(this.mediaType)) {
       body = JSON.stringify(this.data, null, 2);
     } else {
       // deno-lint-ignore no-explicit-any
@@ -456,6 +1648,10 @@ export class ServerResponse<S extends number, M extends string, D, H> implements
       headers.set("content-type", this.mediaType);
     }
 
+    for (const setCookie of this.setCookieHeaders) {
+      headers.append("set-cookie", setCookie);
+    }
+
     return new Response(body, {
       status: this.status,
       headers,
@@ -0,0 +1,202 @@
+import { ZodType } from "../zod.ts";
+import { isZodType } from "../lib/zod_type_check.ts";
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Finds the schema describing the values on one side of the wrappers, refinements, transforms and pipelines
+ */
+function unwrapSchema(schema: ZodType | undefined, side: "input" | "output"): ZodType | undefined {
+  if (schema === undefined) {
+    return undefined;
+  }
+
+  if (isZodType(schema, "ZodOptional") || isZodType(schema, "ZodNullable")) {
+    return unwrapSchema(schema.unwrap(), side);
+  }
+
+  if (isZodType(schema, "ZodDefault") || isZodType(schema, "ZodCatch") || isZodType(schema, "ZodReadonly")) {
+    return unwrapSchema(schema._def.innerType, side);
+  }
+
+  if (isZodType(schema, "ZodBranded")) {
+    return unwrapSchema(schema._def.type, side);
+  }
+
+  if (isZodType(schema, "ZodLazy")) {
+    return unwrapSchema(schema.schema, side);
+  }
+
+  if (isZodType(schema, "ZodPipeline")) {
+    return unwrapSchema(side === "input" ? schema._def.in : schema._def.out, side);
+  }
+
+  // The output of a transform is not described by any schema
+  if (isZodType(schema, "ZodEffects")) {
+    return side === "output" && schema._def.effect.type === "transform"
+      ? undefined
+      : unwrapSchema(schema._def.schema, side);
+  }
+
+  return schema;
+}
+
+function isStringKeySchema(schema: ZodType | undefined): boolean {
+  const keySchema = unwrapSchema(schema, "output");
+  return isZodType(keySchema, "ZodString") || isZodType(keySchema, "ZodEnum");
+}
+
+/**
+ * The schema of a property, or of an item of an array, tuple, set or record
+ */
+function childSchema(schema: ZodType | undefined, key: string | number): ZodType | undefined {
+  if (isZodType(schema, "ZodObject")) {
+    const propertySchema = schema.shape[key];
+    return propertySchema ?? (isZodType(schema._def.catchall, "ZodNever") ? undefined : schema._def.catchall);
+  }
+
+  if (isZodType(schema, "ZodArray")) {
+    return schema.element;
+  }
+
+  if (isZodType(schema, "ZodTuple")) {
+    return schema._def.items[key as number] ?? schema._def.rest ?? undefined;
+  }
+
+  if (isZodType(schema, "ZodSet")) {
+    return schema._def.valueType;
+  }
+
+  if (isZodType(schema, "ZodRecord") || isZodType(schema, "ZodMap")) {
+    return schema._def.valueType;
+  }
+
+  return undefined;
+}
+
+/**
+ * Turns a value matching the output of a schema into its JSON wire format: dates become ISO 8601 strings,
+ * bigints strings, sets arrays, maps objects when their keys are strings and arrays of entries otherwise
+ */
+export function encodeJsonValue(value: unknown, schema: ZodType | undefined): unknown {
+  const outputSchema = unwrapSchema(schema, "output");
+
+  // A union member is only known from the value it matches
+  if (isZodType(outputSchema, "ZodUnion") || isZodType(outputSchema, "ZodDiscriminatedUnion")) {
+    const options: ZodType[] = Array.from(outputSchema.options);
+    return encodeJsonValue(value, options.find((option) => option.safeParse(value).success));
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+
+  if (value instanceof Set) {
+    return Array.from(value, (item) => encodeJsonValue(item, childSchema(outputSchema, 0)));
+  }
+
+  if (value instanceof Map) {
+    const valueSchema = childSchema(outputSchema, 0);
+    const hasStringKeys = isZodType(outputSchema, "ZodMap")
+      ? isStringKeySchema(outputSchema._def.keyType)
+      : Array.from(value.keys()).every((key) => typeof key === "string");
+
+    if (hasStringKeys) {
+      return Object.fromEntries(Array.from(value, ([key, item]) => [key, encodeJsonValue(item, valueSchema)]));
+    }
+
+    const keySchema = isZodType(outputSchema, "ZodMap") ? outputSchema._def.keyType : undefined;
+
+    return Array.from(value, ([key, item]) => [encodeJsonValue(key, keySchema), encodeJsonValue(item, valueSchema)]);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) => encodeJsonValue(item, childSchema(outputSchema, index)));
+  }
+
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, encodeJsonValue(item, childSchema(outputSchema, key))]),
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Turns a value parsed from JSON back into what the input of a schema accepts, undoing `encodeJsonValue`.
+ * Values which can not be decoded are left as they are, for the validation to report them.
+ */
+export function decodeJsonValue(value: unknown, schema: ZodType | undefined): unknown {
+  const inputSchema = unwrapSchema(schema, "input");
+
+  if (inputSchema === undefined || value === null || value === undefined) {
+    return value;
+  }
+
+  if (isZodType(inputSchema, "ZodUnion") || isZodType(inputSchema, "ZodDiscriminatedUnion")) {
+    const options: ZodType[] = Array.from(inputSchema.options);
+
+    for (const option of options) {
+      const decoded = decodeJsonValue(value, option);
+
+      if (option.safeParse(decoded).success) {
+        return decoded;
+      }
+    }
+
+    return value;
+  }
+
+  if (isZodType(inputSchema, "ZodDate") && typeof value === "string") {
+    return new Date(value);
+  }
+
+  if (isZodType(inputSchema, "ZodBigInt") && (typeof value === "string" || typeof value === "number")) {
+    try {
+      return BigInt(value);
+    } catch {
+      return value;
+    }
+  }
+
+  if (isZodType(inputSchema, "ZodSet") && Array.isArray(value)) {
+    return new Set(value.map((item) => decodeJsonValue(item, inputSchema._def.valueType)));
+  }
+
+  if (isZodType(inputSchema, "ZodMap")) {
+    const { keyType, valueType } = inputSchema._def;
+
+    if (Array.isArray(value)) {
+      return new Map(
+        value.map((entry) =>
+          Array.isArray(entry) ? [decodeJsonValue(entry[0], keyType), decodeJsonValue(entry[1], valueType)] : entry
+        ),
+      );
+    }
+
+    if (isPlainObject(value)) {
+      return new Map(Object.entries(value).map(([key, item]) => [key, decodeJsonValue(item, valueType)]));
+    }
+
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) => decodeJsonValue(item, childSchema(inputSchema, index)));
+  }
+
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, decodeJsonValue(item, childSchema(inputSchema, key))]),
+    );
+  }
+
+  return value;
+}
@@ -0,0 +1,100 @@
+import type { OpenapiSetCookieAttributes } from "../openapi_server.ts";
+
+export function parseCookieHeader(header: string | null): Record<string, string> {
+  const cookies: Record<string, string> = {};
+
+  if (header === null) {
+    return cookies;
+  }
+
+  for (const pair of header.split(";")) {
+    const separatorIndex = pair.indexOf("=");
+
+    if (separatorIndex === -1) {
+      continue;
+    }
+
+    const name = pair.slice(0, separatorIndex).trim();
+    let value = pair.slice(separatorIndex + 1).trim();
+
+    if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+      value = value.slice(1, -1);
+    }
+
+    if (name.length > 0 && !(name in cookies)) {
+      try {
+        cookies[name] = decodeURIComponent(value);
+      } catch {
+        cookies[name] = value;
+      }
+    }
+  }
+
+  return cookies;
+}
+
+export function renderCookieHeader(cookies: Record<string, string>): string {
+  return Object.entries(cookies)
+    .map(([name, value]) => `${name}=${encodeURIComponent(value)}`)
+    .join("; ");
+}
+
+// The token of RFC 6265, any character but the controls, the whitespaces and the separators
+const COOKIE_NAME_PATTERN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+// deno-lint-ignore no-control-regex
+const INVALID_ATTRIBUTE_VALUE_PATTERN = /[\x00-\x1f\x7f;]/;
+
+/**
+ * Throws when the cookie could inject other attributes or headers, or would be rejected by the browsers,
+ * which require `SameSite=None` and partitioned cookies to be `Secure`
+ */
+export function renderSetCookieHeader(
+  name: string,
+  value: string,
+  attributes: OpenapiSetCookieAttributes = {},
+): string {
+  if (!COOKIE_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid cookie name=${JSON.stringify(name)}`);
+  }
+
+  for (const attribute of ["domain", "path"] as const) {
+    const attributeValue = attributes[attribute];
+
+    if (attributeValue !== undefined && INVALID_ATTRIBUTE_VALUE_PATTERN.test(attributeValue)) {
+      throw new Error(`Invalid ${attribute}=${JSON.stringify(attributeValue)} of cookie name=${name}`);
+    }
+  }
+
+  if ((attributes.sameSite === "None" || attributes.partitioned) && !attributes.secure) {
+    throw new Error(`The cookie name=${name} must be secure to be SameSite=None or partitioned`);
+  }
+
+  const parts = [`${name}=${encodeURIComponent(value)}`];
+
+  if (attributes.expires !== undefined) {
+    parts.push(`Expires=${attributes.expires.toUTCString()}`);
+  }
+  if (attributes.maxAge !== undefined) {
+    parts.push(`Max-Age=${Math.floor(attributes.maxAge)}`);
+  }
+  if (attributes.domain !== undefined) {
+    parts.push(`Domain=${attributes.domain}`);
+  }
+  if (attributes.path !== undefined) {
+    parts.push(`Path=${attributes.path}`);
+  }
+  if (attributes.secure) {
+    parts.push("Secure");
+  }
+  if (attributes.httpOnly) {
+    parts.push("HttpOnly");
+  }
+  if (attributes.sameSite !== undefined) {
+    parts.push(`SameSite=${attributes.sameSite}`);
+  }
+  if (attributes.partitioned) {
+    parts.push("Partitioned");
+  }
+
+  return parts.join("; ");
+}
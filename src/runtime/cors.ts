@@ -0,0 +1,90 @@
+import type { OpenapiCorsOptions, OpenapiCorsPolicy } from "../openapi_cors.ts";
+import type { OpenapiSecuritySchemeObject } from "../openapi_security.ts";
+import { OpenapiRouteConfig } from "../types/shared.ts";
+
+export interface OpenapiResolvedCorsPolicy extends OpenapiCorsPolicy {
+  allowOrigin: string;
+}
+
+export function resolveCorsPolicy(
+  { origin: allowedOrigin, ...defaultPolicy }: OpenapiCorsOptions,
+  origin: string,
+  request: Request,
+): OpenapiResolvedCorsPolicy | undefined {
+  let policy: OpenapiCorsPolicy | undefined;
+
+  if (allowedOrigin === "*") {
+    policy = defaultPolicy;
+  } else if (Array.isArray(allowedOrigin)) {
+    policy = allowedOrigin.includes(origin) ? defaultPolicy : undefined;
+  } else {
+    const decision = allowedOrigin(origin, request);
+    policy = decision === true
+      ? defaultPolicy
+      : typeof decision === "object"
+      ? { ...defaultPolicy, ...decision }
+      : undefined;
+  }
+
+  if (policy === undefined) {
+    return;
+  }
+
+  // Credentialed requests are rejected by browsers when the allowed origin is the "*" wildcard
+  return { ...policy, allowOrigin: allowedOrigin === "*" && !policy.credentials ? "*" : origin };
+}
+
+/**
+ * The request headers a browser has to be allowed to send for the given route: the declared request headers,
+ * the `Content-Type` of the body and the headers carrying the credentials of its security schemes
+ */
+export function extractCorsRequestHeaderNames(
+  config: OpenapiRouteConfig<string>,
+  securitySchemes: OpenapiSecuritySchemeObject[],
+): string[] {
+  const names = Object.keys(config.request?.headers ?? {}).map((name) => name.toLowerCase());
+
+  if (config.request?.body !== undefined) {
+    names.push("content-type");
+  }
+
+  for (const scheme of securitySchemes) {
+    if (scheme.type === "apiKey") {
+      if (scheme.in === "header") {
+        names.push(scheme.name.toLowerCase());
+      }
+    } else {
+      names.push("authorization");
+    }
+  }
+
+  return Array.from(new Set(names));
+}
+
+export function extractCorsExposedHeaderNames(config: OpenapiRouteConfig<string>): string[] {
+  return Array.from(
+    new Set(
+      Object.values(config.responses ?? {}).flatMap((response) =>
+        Object.keys(response.headers ?? {}).map((name) => name.toLowerCase())
+      ),
+    ),
+  );
+}
+
+export function applyCorsHeaders(headers: Headers, { allowOrigin, credentials }: OpenapiResolvedCorsPolicy): void {
+  headers.set("access-control-allow-origin", allowOrigin);
+
+  if (credentials) {
+    headers.set("access-control-allow-credentials", "true");
+  }
+}
+
+/**
+ * Marks the response as depending on the `Origin` of the request unless every origin gets the "*" wildcard,
+ * including the rejected origins and the requests without one so that caches never serve them to another origin
+ */
+export function appendCorsVaryHeader(headers: Headers, { origin, credentials }: OpenapiCorsOptions): void {
+  if (origin !== "*" || credentials) {
+    headers.append("vary", "Origin");
+  }
+}
@@ -0,0 +1,220 @@
+export type OpenapiDocsPageTheme = "light" | "dark" | "auto";
+
+export interface OpenapiDocsPageConfig {
+  title: string;
+  specUrl: string;
+  theme: OpenapiDocsPageTheme;
+  tryItOutBaseUrl?: string;
+}
+
+function toInlineScriptJson(value: unknown): string {
+  return JSON.stringify(value).replaceAll("<", "\\u003c");
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;");
+}
+
+const STYLE = `
+:root {
+  --bg: #ffffff; --fg: #1f2328; --muted: #656d76; --border: #d0d7de; --panel: #f6f8fa; --accent: #0969da;
+  --get: #1f883d; --post: #0969da; --put: #9a6700; --patch: #8250df; --delete: #cf222e; --other: #656d76;
+}
+:root[data-theme="dark"] {
+  --bg: #0d1117; --fg: #e6edf3; --muted: #8d96a0; --border: #30363d; --panel: #161b22; --accent: #4493f8;
+}
+@media (prefers-color-scheme: dark) {
+  :root[data-theme="auto"] {
+    --bg: #0d1117; --fg: #e6edf3; --muted: #8d96a0; --border: #30363d; --panel: #161b22; --accent: #4493f8;
+  }
+}
+* { box-sizing: border-box; }
+body { margin: 0; background: var(--bg); color: var(--fg); font: 14px/1.5 system-ui, sans-serif; }
+main { max-width: 1080px; margin: 0 auto; padding: 24px; }
+h1 { margin: 0 0 4px; font-size: 28px; }
+h3 { margin: 16px 0 8px; font-size: 14px; text-transform: uppercase; color: var(--muted); }
+pre, code, input, textarea { font: 13px/1.4 ui-monospace, monospace; }
+pre { margin: 0; padding: 12px; overflow: auto; background: var(--panel); border: 1px solid var(--border); border-radius: 6px; }
+details.operation { margin: 8px 0; border: 1px solid var(--border); border-radius: 6px; }
+details.operation > summary { display: flex; gap: 12px; align-items: center; padding: 8px 12px; cursor: pointer; }
+details.operation > div { padding: 0 12px 12px; border-top: 1px solid var(--border); }
+.method { min-width: 72px; padding: 2px 8px; border-radius: 4px; color: #fff; font-weight: 600; text-align: center; text-transform: uppercase; background: var(--other); }
+.method.get { background: var(--get); } .method.post { background: var(--post); } .method.put { background: var(--put); }
+.method.patch { background: var(--patch); } .method.delete { background: var(--delete); }
+.path { font-family: ui-monospace, monospace; font-weight: 600; }
+.muted { color: var(--muted); }
+table { width: 100%; border-collapse: collapse; }
+td, th { padding: 6px 8px; border-bottom: 1px solid var(--border); text-align: left; vertical-align: top; }
+input, textarea { width: 100%; padding: 6px; color: var(--fg); background: var(--bg); border: 1px solid var(--border); border-radius: 4px; }
+textarea { min-height: 120px; }
+button { margin-top: 8px; padding: 6px 16px; color: #fff; background: var(--accent); border: 0; border-radius: 4px; cursor: pointer; }
+.error { color: var(--delete); }
+`;
+
+// Plain DOM scripting, so that the page works offline without any third-party asset
+const SCRIPT = `
+const config = JSON.parse(document.getElementById("config").textContent);
+const root = document.getElementById("root");
+const METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+
+function el(tag, attributes, ...children) {
+  const node = document.createElement(tag);
+  for (const [name, value] of Object.entries(attributes || {})) {
+    if (value !== undefined) node.setAttribute(name, value);
+  }
+  for (const child of children) {
+    if (child !== undefined && child !== null) node.append(child);
+  }
+  return node;
+}
+
+function resolve(spec, value, seen = new Set()) {
+  if (Array.isArray(value)) return value.map((item) => resolve(spec, item, seen));
+  if (value === null || typeof value !== "object") return value;
+  if (typeof value.$ref === "string" && value.$ref.startsWith("#/")) {
+    if (seen.has(value.$ref)) return { $ref: value.$ref };
+    const target = value.$ref.slice(2).split("/").reduce((node, key) => node && node[key], spec);
+    return resolve(spec, target, new Set([...seen, value.$ref]));
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolve(spec, item, seen)]));
+}
+
+function renderContent(spec, content) {
+  return Object.entries(content || {}).map(([mediaType, media]) =>
+    el("div", {}, el("p", { class: "muted" }, mediaType), el("pre", {}, JSON.stringify(resolve(spec, media.schema), null, 2)))
+  );
+}
+
+function renderTryItOut(path, method, parameters, requestBody) {
+  const inputs = new Map();
+  const form = el("form", {});
+  for (const parameter of parameters) {
+    const input = el("input", { placeholder: parameter.in + " " + parameter.name });
+    inputs.set(parameter, input);
+    form.append(input);
+  }
+  const mediaType = requestBody ? Object.keys(requestBody.content || {})[0] : undefined;
+  const body = mediaType ? el("textarea", { placeholder: mediaType }) : undefined;
+  const output = el("pre", { hidden: "" });
+  form.append(...[body, el("button", { type: "submit" }, "Execute"), output].filter(Boolean));
+
+  form.addEventListener("submit", async (event) => {
+    event.preventDefault();
+    let renderedPath = path;
+    const query = new URLSearchParams();
+    const headers = new Headers();
+    for (const [parameter, input] of inputs) {
+      if (input.value === "") continue;
+      if (parameter.in === "path") renderedPath = renderedPath.replace("{" + parameter.name + "}", encodeURIComponent(input.value));
+      else if (parameter.in === "query") query.append(parameter.name, input.value);
+      else if (parameter.in === "header") headers.set(parameter.name, input.value);
+    }
+    if (body && mediaType) headers.set("content-type", mediaType);
+    const search = query.toString();
+    output.hidden = false;
+    output.classList.remove("error");
+    try {
+      const response = await fetch(config.tryItOutBaseUrl + renderedPath + (search ? "?" + search : ""), {
+        method: method.toUpperCase(),
+        headers,
+        body: body && body.value !== "" ? body.value : undefined,
+      });
+      output.textContent = response.status + " " + response.statusText + "\\n\\n" + await response.text();
+    } catch (error) {
+      output.classList.add("error");
+      output.textContent = String(error);
+    }
+  });
+
+  return form;
+}
+
+function renderOperation(spec, path, method, operation, pathParameters) {
+  const parameters = [...(pathParameters || []), ...(operation.parameters || [])].map((p) => resolve(spec, p));
+  const requestBody = resolve(spec, operation.requestBody);
+  const content = el("div", {});
+
+  if (operation.description) content.append(el("p", {}, operation.description));
+  if (parameters.length > 0) {
+    content.append(
+      el("h3", {}, "Parameters"),
+      el(
+        "table",
+        {},
+        ...parameters.map((p) =>
+          el(
+            "tr",
+            {},
+            el("td", {}, el("code", {}, p.name), p.required ? " *" : ""),
+            el("td", { class: "muted" }, p.in),
+            el("td", {}, el("code", {}, JSON.stringify(p.schema))),
+          )
+        ),
+      ),
+    );
+  }
+  if (requestBody) content.append(el("h3", {}, "Request body"), ...renderContent(spec, requestBody.content));
+  content.append(el("h3", {}, "Responses"));
+  for (const [status, response] of Object.entries(resolve(spec, operation.responses || {}))) {
+    content.append(el("p", {}, el("strong", {}, status), " ", response.description || ""), ...renderContent(spec, response.content));
+  }
+  if (config.tryItOutBaseUrl !== undefined) {
+    content.append(el("h3", {}, "Try it out"), renderTryItOut(path, method, parameters, requestBody));
+  }
+
+  return el(
+    "details",
+    { class: "operation" },
+    el("summary", {}, el("span", { class: "method " + method }, method), el("span", { class: "path" }, path), el("span", { class: "muted" }, operation.summary || "")),
+    content,
+  );
+}
+
+async function main() {
+  try {
+    const response = await fetch(config.specUrl, { headers: { accept: "application/json" } });
+    if (!response.ok) throw new Error("Failed to load " + config.specUrl + ": " + response.status);
+    const spec = await response.json();
+    const info = spec.info || {};
+    root.replaceChildren(
+      el("h1", {}, info.title || config.title),
+      el("p", { class: "muted" }, "Version " + (info.version || "") + " — OpenAPI " + (spec.openapi || "")),
+    );
+    if (info.description) root.append(el("p", {}, info.description));
+    for (const [path, pathItem] of Object.entries(spec.paths || {})) {
+      for (const method of METHODS) {
+        if (pathItem[method]) root.append(renderOperation(spec, path, method, pathItem[method], pathItem.parameters));
+      }
+    }
+  } catch (error) {
+    root.replaceChildren(el("p", { class: "error" }, String(error)));
+  }
+}
+
+main();
+`;
+
+/**
+ * Renders a self-contained HTML page browsing the OpenAPI document served at `specUrl`
+ */
+export function renderDocsPage({ title, specUrl, theme, tryItOutBaseUrl }: OpenapiDocsPageConfig): string {
+  return `<!DOCTYPE html>
+<html lang="en" data-theme="${theme}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<main id="root"><p class="muted">Loading ${escapeHtml(specUrl)}…</p></main>
+<script type="application/json" id="config">${toInlineScriptJson({ title, specUrl, tryItOutBaseUrl })}</script>
+<script type="module">${SCRIPT}</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,73 @@
+import { toMediaTypeEssence } from "./request_body.ts";
+
+export interface AcceptedMediaRange {
+  type: string;
+  subtype: string;
+  q: number;
+}
+
+/**
+ * Parses an Accept header into its media ranges. A missing or empty header accepts anything.
+ */
+export function parseAcceptHeader(header: string | null): AcceptedMediaRange[] {
+  if (header === null || header.trim().length === 0) {
+    return [{ type: "*", subtype: "*", q: 1 }];
+  }
+
+  return header.split(",").flatMap((part) => {
+    const [range, ...params] = part.split(";");
+    const [type, subtype] = range.trim().toLowerCase().split("/");
+
+    if (!type || !subtype) {
+      return [];
+    }
+
+    let q = 1;
+
+    for (const param of params) {
+      const [name, value] = param.split("=").map((s) => s.trim());
+
+      if (name.toLowerCase() === "q") {
+        const parsed = Number(value);
+        q = Number.isFinite(parsed) ? Math.min(Math.max(parsed, 0), 1) : 0;
+      }
+    }
+
+    return [{ type, subtype, q }];
+  });
+}
+
+function qualityOf(accepted: AcceptedMediaRange[], mediaType: string): number {
+  const [type, subtype] = toMediaTypeEssence(mediaType).split("/");
+  let bestSpecificity = -1;
+  let quality = 0;
+
+  for (const range of accepted) {
+    const specificity = range.type === type && range.subtype === subtype
+      ? 2
+      : range.type === type && range.subtype === "*"
+      ? 1
+      : range.type === "*" && range.subtype === "*"
+      ? 0
+      : -1;
+
+    if (specificity > bestSpecificity) {
+      bestSpecificity = specificity;
+      quality = range.q;
+    }
+  }
+
+  return quality;
+}
+
+/**
+ * Orders the candidate media types by the client preference, dropping the unacceptable ones.
+ * Candidates of equal quality keep their declaration order.
+ */
+export function negotiateMediaTypes<M extends string>(accepted: AcceptedMediaRange[], candidates: Iterable<M>): M[] {
+  return Array.from(candidates)
+    .map((mediaType) => ({ mediaType, q: qualityOf(accepted, mediaType) }))
+    .filter(({ q }) => q > 0)
+    .sort((a, b) => b.q - a.q)
+    .map(({ mediaType }) => mediaType);
+}
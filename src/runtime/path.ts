@@ -0,0 +1,150 @@
+import { OpenapiRequestParamKeySchema } from "./request.ts";
+import { toStringValue } from "./query.ts";
+
+/**
+ * Matches the `{name}` parameters of a path template, and the greedy `{name+}` ones spanning several segments
+ */
+export const PATH_PARAMETER_REGEX = /\{([^}+]+)(\+)?\}/g;
+
+const PREFIXES: Record<OpenapiRequestParamKeySchema["style"], string> = {
+  simple: "",
+  label: ".",
+  matrix: ";",
+};
+
+/**
+ * Converts a path template to the one of the OpenAPI document, which has no greedy parameters
+ */
+export function toOpenapiPath(template: string): string {
+  return template.replace(PATH_PARAMETER_REGEX, "{$1}");
+}
+
+function decodePathComponent(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function toPairs(tokens: string[]): [string, string][] {
+  const pairs: [string, string][] = [];
+
+  for (let index = 0; index + 1 < tokens.length; index += 2) {
+    pairs.push([tokens[index], tokens[index + 1]]);
+  }
+
+  return pairs;
+}
+
+function splitAssignment(value: string): [string, string] {
+  const index = value.indexOf("=");
+  return index === -1 ? [value, ""] : [value.slice(0, index), value.slice(index + 1)];
+}
+
+function decodeEntries(entries: [string, string][]): Record<string, string> {
+  return Object.fromEntries(entries.map(([name, value]) => [decodePathComponent(name), decodePathComponent(value)]));
+}
+
+function parseMatrixParameter(
+  value: string,
+  { key, kind, explode }: Pick<OpenapiRequestParamKeySchema, "key" | "kind" | "explode">,
+): unknown {
+  const assignments = value.split(";").slice(1).map(splitAssignment);
+
+  if (kind === "object" && explode) {
+    return decodeEntries(assignments);
+  }
+
+  const values = assignments.filter(([name]) => decodePathComponent(name) === key).map(([_, item]) => item);
+
+  if (values.length === 0) {
+    return undefined;
+  }
+
+  if (kind === "primitive") {
+    return decodePathComponent(values[0]);
+  }
+
+  const tokens = explode ? values : values[0].split(",");
+
+  return kind === "array" ? tokens.map(decodePathComponent) : decodeEntries(toPairs(tokens));
+}
+
+/**
+ * Reads the raw value of a path parameter matched by the router according to its style,
+ * decoding the values only once split so that the encoded delimiters are kept within them
+ */
+export function parsePathParameter(
+  value: string | undefined,
+  { key, kind, style, explode }: Pick<OpenapiRequestParamKeySchema, "key" | "kind" | "style" | "explode">,
+): unknown {
+  if (value === undefined || !value.startsWith(PREFIXES[style])) {
+    return undefined;
+  }
+
+  if (style === "matrix") {
+    return parseMatrixParameter(value, { key, kind, explode });
+  }
+
+  const content = value.slice(PREFIXES[style].length);
+
+  if (kind === "primitive") {
+    return decodePathComponent(content);
+  }
+
+  const tokens = content === "" ? [] : content.split(style === "label" && explode ? "." : ",");
+
+  if (kind === "array") {
+    return tokens.map(decodePathComponent);
+  }
+
+  return decodeEntries(explode ? tokens.map(splitAssignment) : toPairs(tokens));
+}
+
+/**
+ * Encodes a value of a greedy parameter segment by segment, keeping the slashes which separate them
+ */
+function encodeGreedyValue(value: string): string {
+  return value.split("/").map(encodeURIComponent).join("/");
+}
+
+/**
+ * Writes a path parameter according to its style, the reverse of `parsePathParameter`
+ */
+export function serializePathParameter(
+  value: unknown,
+  { key, style, explode }: Pick<OpenapiRequestParamKeySchema, "key" | "style" | "explode">,
+  greedy = false,
+): string {
+  const encode = (item: unknown) =>
+    greedy ? encodeGreedyValue(toStringValue(item)) : encodeURIComponent(toStringValue(item));
+  const prefix = PREFIXES[style];
+  const encodedKey = encodeURIComponent(key);
+
+  if (Array.isArray(value)) {
+    const items = value.map(encode);
+
+    if (style === "matrix") {
+      return explode ? items.map((item) => `;${encodedKey}=${item}`).join("") : `;${encodedKey}=${items.join(",")}`;
+    }
+
+    return prefix + items.join(style === "label" && explode ? "." : ",");
+  }
+
+  if (typeof value === "object" && value !== null && !(value instanceof Date)) {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([_, item]) => item !== undefined)
+      .map(([property, item]) => [encodeURIComponent(property), encode(item)]);
+
+    if (explode) {
+      const assignments = entries.map(([property, item]) => `${property}=${item}`);
+      return prefix + assignments.join(style === "simple" ? "," : prefix);
+    }
+
+    const tokens = entries.flat().join(",");
+    return style === "matrix" ? `;${encodedKey}=${tokens}` : prefix + tokens;
+  }
+
+  return style === "matrix" ? `;${encodedKey}=${encode(value)}` : prefix + encode(value);
+}
@@ -0,0 +1,43 @@
+/**
+ * Compares the path tree of the router with the linear scan of `URLPattern` it replaced:
+ * deno bench src/runtime/path_tree.bench.ts
+ */
+import { PathTree } from "./path_tree.ts";
+
+const templates = Array.from({ length: 100 }, (_, index) => [
+  `/resources${index}`,
+  `/resources${index}/{id}`,
+  `/resources${index}/{id}/items/{itemId}`,
+  `/resources${index}/{id}/files/{path+}`,
+]).flat();
+
+const patterns = templates.map((template) => ({
+  template,
+  urlPattern: new URLPattern({ pathname: template.replace(/\{([^}+]+)(\+)?\}/g, ":$1$2") }),
+}));
+
+const tree = new PathTree<string>();
+
+for (const template of templates) {
+  tree.insert(template, template);
+}
+
+const urls = [
+  new URL("http://localhost/resources0/42/items/7"),
+  new URL("http://localhost/resources50/42"),
+  new URL("http://localhost/resources99/42/items/7"),
+  new URL("http://localhost/resources99/42/files/a/b/c.txt"),
+];
+
+Deno.bench("URLPattern scan", { group: "match", baseline: true }, () => {
+  for (const url of urls) {
+    const pattern = patterns.find(({ urlPattern }) => urlPattern.test(url))!;
+    pattern.urlPattern.exec(url)!.pathname.groups;
+  }
+});
+
+Deno.bench("PathTree", { group: "match" }, () => {
+  for (const url of urls) {
+    tree.match(url.pathname);
+  }
+});
@@ -0,0 +1,205 @@
+import { escapeRegExp } from "../generator/utils.ts";
+import { PATH_PARAMETER_REGEX } from "./path.ts";
+
+type PathTreeLeaf<T> = {
+  template: string;
+  names: string[];
+  value: T;
+};
+
+type PathTreePatternChild<T> = {
+  /**
+   * The segment with its parameter names removed, so that `{id}.json` and `{name}.json` share a node
+   */
+  key: string;
+  literalLength: number;
+  regex: RegExp;
+  node: PathTreeNode<T>;
+};
+
+type PathTreeNode<T> = {
+  statics: Map<string, PathTreeNode<T>>;
+  patterns: PathTreePatternChild<T>[];
+  param?: PathTreeNode<T>;
+  greedy?: PathTreeLeaf<T>;
+  leaf?: PathTreeLeaf<T>;
+};
+
+export type PathTreeMatch<T> = {
+  value: T;
+  params: Record<string, string>;
+};
+
+function createNode<T>(): PathTreeNode<T> {
+  return { statics: new Map(), patterns: [] };
+}
+
+type ParsedSegment =
+  | { kind: "static"; value: string }
+  | { kind: "param"; name: string }
+  | { kind: "greedy"; name: string }
+  | { kind: "pattern"; key: string; literalLength: number; regex: RegExp; names: string[] };
+
+function parseSegment(template: string, segment: string, isLast: boolean): ParsedSegment {
+  const matches = Array.from(segment.matchAll(PATH_PARAMETER_REGEX));
+
+  if (matches.length === 0) {
+    return { kind: "static", value: segment };
+  }
+
+  if (matches.length === 1 && matches[0][0] === segment) {
+    const [_, name, greedy] = matches[0];
+
+    if (greedy === undefined) {
+      return { kind: "param", name };
+    }
+
+    if (isLast) {
+      return { kind: "greedy", name };
+    }
+  }
+
+  if (matches.some(([_, __, greedy]) => greedy !== undefined)) {
+    throw new Error(`The greedy parameter of path=${template} must be its whole last segment`);
+  }
+
+  const literals = segment.split(PATH_PARAMETER_REGEX).filter((_, index) => index % 3 === 0);
+
+  return {
+    kind: "pattern",
+    key: literals.join("{}"),
+    literalLength: literals.join("").length,
+    regex: new RegExp(`^${literals.map(escapeRegExp).join("(.+?)")}$`),
+    names: matches.map(([_, name]) => name),
+  };
+}
+
+/**
+ * A tree of the segments of the path templates. Whatever the order the templates are inserted in, static segments
+ * take precedence over the ones mixing literals with parameters, which take precedence over parameters,
+ * which take precedence over greedy parameters. Templates which only overlap, like `/items/{id}` and
+ * `/items/{id}.json`, are resolved by this precedence, while `insert` rejects the ones matching exactly the same paths.
+ *
+ * A segment falls back to the less specific children when the more specific ones lead to no template, so that
+ * `/items/new/edit` still matches `/items/{id}/edit` next to `/items/new`. Each node is visited at most once,
+ * which bounds the fallbacks by the size of the tree, and a path which needs none is matched in a time
+ * proportional to its length.
+ */
+export class PathTree<T> {
+  private readonly root = createNode<T>();
+
+  /**
+   * Inserts the value of a template, unless another template matches exactly the same paths,
+   * in which case the value of that template is returned
+   */
+  insert(template: string, value: T): T | undefined {
+    const segments = template.split("/");
+    const names: string[] = [];
+    let node = this.root;
+
+    for (const [index, segment] of segments.entries()) {
+      const parsed = parseSegment(template, segment, index === segments.length - 1);
+
+      if (parsed.kind === "greedy") {
+        if (node.greedy !== undefined) {
+          return node.greedy.value;
+        }
+
+        node.greedy = { template, names: [...names, parsed.name], value };
+        return;
+      }
+
+      if (parsed.kind === "static") {
+        if (!node.statics.has(parsed.value)) {
+          node.statics.set(parsed.value, createNode());
+        }
+
+        node = node.statics.get(parsed.value)!;
+      } else if (parsed.kind === "param") {
+        names.push(parsed.name);
+        node = node.param ??= createNode();
+      } else {
+        names.push(...parsed.names);
+        let child = node.patterns.find(({ key }) => key === parsed.key);
+
+        if (child === undefined) {
+          child = { key: parsed.key, literalLength: parsed.literalLength, regex: parsed.regex, node: createNode() };
+          node.patterns.push(child);
+          node.patterns.sort((a, b) => b.literalLength - a.literalLength || (a.key < b.key ? -1 : 1));
+        }
+
+        node = child.node;
+      }
+    }
+
+    if (node.leaf !== undefined) {
+      return node.leaf.value;
+    }
+
+    node.leaf = { template, names, value };
+  }
+
+  match(path: string): PathTreeMatch<T> | undefined {
+    return matchNode(this.root, path.split("/"), 0, []);
+  }
+}
+
+function toMatch<T>({ names, value }: PathTreeLeaf<T>, values: string[]): PathTreeMatch<T> {
+  return { value, params: Object.fromEntries(names.map((name, index) => [name, values[index]])) };
+}
+
+function matchNode<T>(
+  node: PathTreeNode<T>,
+  segments: string[],
+  index: number,
+  values: string[],
+): PathTreeMatch<T> | undefined {
+  if (index === segments.length) {
+    return node.leaf !== undefined ? toMatch(node.leaf, values) : undefined;
+  }
+
+  const segment = segments[index];
+  const staticChild = node.statics.get(segment);
+
+  if (staticChild !== undefined) {
+    const match = matchNode(staticChild, segments, index + 1, values);
+
+    if (match !== undefined) {
+      return match;
+    }
+  }
+
+  for (const { regex, node: patternChild } of node.patterns) {
+    const groups = regex.exec(segment);
+
+    if (groups !== null) {
+      values.push(...groups.slice(1));
+      const match = matchNode(patternChild, segments, index + 1, values);
+
+      if (match !== undefined) {
+        return match;
+      }
+
+      values.length -= groups.length - 1;
+    }
+  }
+
+  if (node.param !== undefined && segment !== "") {
+    values.push(segment);
+    const match = matchNode(node.param, segments, index + 1, values);
+
+    if (match !== undefined) {
+      return match;
+    }
+
+    values.pop();
+  }
+
+  if (node.greedy !== undefined) {
+    const rest = segments.slice(index);
+
+    if (rest.every((item) => item !== "")) {
+      return toMatch(node.greedy, [...values, rest.join("/")]);
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import { ZodArray, ZodObject, ZodRecord, ZodType } from "../zod.ts";
+import { OpenapiQueryStyle, OpenapiRequestQueryKeySchema, unwrapZodType } from "./request.ts";
+
+const DELIMITERS: Record<Exclude<OpenapiQueryStyle, "deepObject">, string> = {
+  form: ",",
+  spaceDelimited: " ",
+  pipeDelimited: "|",
+};
+
+export function toStringValue(value: unknown) {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value);
+}
+
+/**
+ * The schema of a property of an object parameter, when known
+ */
+function propertySchema(schema: ZodType | undefined, property: string): ZodType | undefined {
+  const innerSchema = schema !== undefined ? unwrapZodType(schema) : undefined;
+
+  if (innerSchema instanceof ZodObject) {
+    return innerSchema.shape[property];
+  }
+
+  return innerSchema instanceof ZodRecord ? innerSchema._def.valueType : undefined;
+}
+
+function splitDelimited(value: string | null, delimiter: string): string[] {
+  return value === null || value === "" ? [] : value.split(delimiter);
+}
+
+/**
+ * Collects the `key[a][b]=value` entries into nested objects, repeated entries of array properties into arrays
+ */
+function parseDeepObject(searchParams: URLSearchParams, key: string, schema: ZodType): unknown {
+  let result: Record<string, unknown> | undefined;
+
+  for (const [name, value] of searchParams) {
+    if (!name.startsWith(`${key}[`) || !name.endsWith("]")) {
+      continue;
+    }
+
+    const path = name.slice(key.length + 1, -1).split("][");
+    let target = result ??= {};
+    let targetSchema: ZodType | undefined = schema;
+
+    path.forEach((property, index) => {
+      targetSchema = propertySchema(targetSchema, property);
+
+      if (index < path.length - 1) {
+        target = (target[property] ??= {}) as Record<string, unknown>;
+      } else if (targetSchema !== undefined && unwrapZodType(targetSchema) instanceof ZodArray) {
+        target[property] = [...(target[property] as string[] | undefined ?? []), value];
+      } else {
+        target[property] = value;
+      }
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Reads a query parameter according to its style. Missing primitives are null and missing arrays empty,
+ * like with `URLSearchParams`, while missing objects are undefined.
+ */
+export function parseQueryParameter(
+  searchParams: URLSearchParams,
+  { key, schema, kind, style, explode }: OpenapiRequestQueryKeySchema,
+): unknown {
+  if (kind === "primitive") {
+    return searchParams.get(key);
+  }
+
+  if (style === "deepObject") {
+    return parseDeepObject(searchParams, key, schema);
+  }
+
+  if (kind === "array") {
+    return explode ? searchParams.getAll(key) : splitDelimited(searchParams.get(key), DELIMITERS[style]);
+  }
+
+  if (explode) {
+    const innerSchema = unwrapZodType(schema);
+    const shape: Record<string, ZodType> = innerSchema instanceof ZodObject ? innerSchema.shape : {};
+    const entries = Object.entries(shape).flatMap(([property, valueSchema]) => {
+      const isArray = unwrapZodType(valueSchema) instanceof ZodArray;
+      const values = searchParams.getAll(property);
+      return values.length > 0 ? [[property, isArray ? values : values[0]]] : [];
+    });
+
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  }
+
+  const tokens = splitDelimited(searchParams.get(key), DELIMITERS[style]);
+
+  if (tokens.length === 0) {
+    return undefined;
+  }
+
+  const result: Record<string, string> = {};
+
+  for (let index = 0; index + 1 < tokens.length; index += 2) {
+    result[tokens[index]] = tokens[index + 1];
+  }
+
+  return result;
+}
+
+function toDeepObjectEntries(prefix: string, value: Record<string, unknown>): [string, string][] {
+  return Object.entries(value).flatMap(([property, item]): [string, string][] => {
+    const name = `${prefix}[${property}]`;
+
+    if (item === undefined) {
+      return [];
+    }
+
+    if (Array.isArray(item)) {
+      return item.map((element) => [name, toStringValue(element)]);
+    }
+
+    if (typeof item === "object" && item !== null && !(item instanceof Date)) {
+      return toDeepObjectEntries(name, item as Record<string, unknown>);
+    }
+
+    return [[name, toStringValue(item)]];
+  });
+}
+
+/**
+ * Writes a query parameter according to its style, the reverse of `parseQueryParameter`
+ */
+export function serializeQueryParameter(
+  value: unknown,
+  { key, style, explode }: Pick<OpenapiRequestQueryKeySchema, "key" | "style" | "explode">,
+): [string, string][] {
+  if (value === undefined) {
+    return [];
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map(toStringValue);
+
+    if (explode || style === "deepObject") {
+      return items.map((item) => [key, item]);
+    }
+
+    return items.length > 0 ? [[key, items.join(DELIMITERS[style])]] : [];
+  }
+
+  if (typeof value === "object" && value !== null && !(value instanceof Date)) {
+    const record = value as Record<string, unknown>;
+
+    if (style === "deepObject") {
+      return toDeepObjectEntries(key, record);
+    }
+
+    const entries = Object.entries(record).filter(([_, item]) => item !== undefined);
+
+    if (explode) {
+      return entries.flatMap(([property, item]): [string, string][] =>
+        Array.isArray(item)
+          ? item.map((element) => [property, toStringValue(element)])
+          : [[property, toStringValue(item)]]
+      );
+    }
+
+    return [[key, entries.flatMap(([property, item]) => [property, toStringValue(item)]).join(DELIMITERS[style])]];
+  }
+
+  return [[key, toStringValue(value)]];
+}
@@ -1,20 +1,38 @@
 import { OpenapiRouteConfig } from "../types/shared.ts";
-import { ZodArray, ZodDefault, ZodEffects, ZodNullable, ZodOptional, ZodType } from "../zod.ts";
+import { ZodArray, ZodDefault, ZodEffects, ZodNullable, ZodObject, ZodOptional, ZodRecord, ZodType } from "../zod.ts";
+
+export type OpenapiQueryStyle = "form" | "spaceDelimited" | "pipeDelimited" | "deepObject";
+
+export type OpenapiPathStyle = "simple" | "label" | "matrix";
+
+export type OpenapiParameterValueKind = "primitive" | "array" | "object";
 
 export type OpenapiRequestQueryKeySchema = {
   key: string;
   schema: ZodType;
-  isArray: boolean;
+  kind: OpenapiParameterValueKind;
+  style: OpenapiQueryStyle;
+  explode: boolean;
+};
+
+export type OpenapiRequestParamKeySchema = {
+  key: string;
+  schema: ZodType;
+  kind: OpenapiParameterValueKind;
+  style: OpenapiPathStyle;
+  explode: boolean;
 };
 
 export function extractRequestParamsSchema<C extends OpenapiRouteConfig>(
   config: C,
-): [string, ZodType][] | undefined {
+): OpenapiRequestParamKeySchema[] | undefined {
   const record = config.request?.params;
-  return record !== undefined ? Object.entries(record) : undefined;
+  return record !== undefined
+    ? Object.entries(record).map(([key, schema]) => toRequestParamKeySchema(key, schema))
+    : undefined;
 }
 
-function unwrapZodType(schema: ZodType): ZodType {
+export function unwrapZodType(schema: ZodType): ZodType {
   if (schema instanceof ZodOptional || schema instanceof ZodNullable) {
     return unwrapZodType(schema.unwrap());
   }
@@ -38,14 +56,56 @@ export function extractRequestQuerySchema<C extends OpenapiRouteConfig>(
 ): OpenapiRequestQueryKeySchema[] | undefined {
   const record = config.request?.query;
   return record !== undefined
-    ? Object.entries(record).map(([key, schema]) => ({
-      key,
-      schema,
-      isArray: unwrapZodType(schema) instanceof ZodArray,
-    }))
+    ? Object.entries(record).map(([key, schema]) => toRequestQueryKeySchema(key, schema))
     : undefined;
 }
 
+function toParameterValueKind(schema: ZodType): OpenapiParameterValueKind {
+  const innerSchema = unwrapZodType(schema);
+
+  if (innerSchema instanceof ZodArray) {
+    return "array";
+  }
+
+  return innerSchema instanceof ZodObject || innerSchema instanceof ZodRecord ? "object" : "primitive";
+}
+
+function getParameterMetadata(schema: ZodType) {
+  return (schema._def.openapi ?? unwrapZodType(schema)._def.openapi)?.param;
+}
+
+/**
+ * Reads the `style` and `explode` of the parameter metadata, which default to the ones of OpenAPI:
+ * only the `form` style is exploded by default, and the `deepObject` style is always exploded
+ */
+export function toRequestQueryKeySchema(key: string, schema: ZodType): OpenapiRequestQueryKeySchema {
+  const param = getParameterMetadata(schema);
+  const style = (param?.style as OpenapiQueryStyle | undefined) ?? "form";
+
+  return {
+    key,
+    schema,
+    kind: toParameterValueKind(schema),
+    style,
+    explode: style === "deepObject" || (param?.explode ?? style === "form"),
+  };
+}
+
+/**
+ * Reads the `style` and `explode` of the path parameter metadata, which default to the non-exploded `simple` style
+ */
+export function toRequestParamKeySchema(key: string, schema: ZodType): OpenapiRequestParamKeySchema {
+  const param = getParameterMetadata(schema);
+
+  return {
+    key,
+    schema,
+    kind: toParameterValueKind(schema),
+    style: (param?.style as OpenapiPathStyle | undefined) ?? "simple",
+    explode: param?.explode ?? false,
+  };
+}
+
 export function extractRequestHeadersSchema<C extends OpenapiRouteConfig>(
   config: C,
 ): [string, ZodType][] | undefined {
@@ -53,14 +113,24 @@ export function extractRequestHeadersSchema<C extends OpenapiRouteConfig>(
   return record !== undefined ? Object.entries(record) : undefined;
 }
 
-export function extractRequestBodySchema<C extends OpenapiRouteConfig>(config: C): ZodType | undefined {
+export function extractRequestCookiesSchema<C extends OpenapiRouteConfig>(
+  config: C,
+): [string, ZodType][] | undefined {
+  const record = config.request?.cookies;
+  return record !== undefined ? Object.entries(record) : undefined;
+}
+
+export type RequestBodySchemaMap = Map<string, ZodType | undefined>;
+
+export function extractRequestBodySchemaMap<C extends OpenapiRouteConfig>(config: C): RequestBodySchemaMap | undefined {
   const bodyContent = config.request?.body?.content;
 
   if (bodyContent) {
-    const schema = bodyContent["application/json"]?.schema;
-
-    if (schema instanceof ZodType) {
-      return schema;
-    }
+    return new Map(
+      Object.entries(bodyContent).map(([mediaType, { schema }]) => [
+        mediaType,
+        schema instanceof ZodType ? schema : undefined,
+      ]),
+    );
   }
 }
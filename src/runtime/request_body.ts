@@ -0,0 +1,143 @@
+import { ZodArray, ZodObject, ZodType } from "../zod.ts";
+import { unwrapZodType } from "./request.ts";
+
+export function toMediaTypeEssence(contentType: string): string {
+  return contentType.split(";", 1)[0].trim().toLowerCase();
+}
+
+export function isJsonMediaType(mediaType: string): boolean {
+  const essence = toMediaTypeEssence(mediaType);
+  return essence === "application/json" || essence.endsWith("+json");
+}
+
+/**
+ * Finds the declared media type matching the given Content-Type, preferring an exact match
+ * over a `type/*` range, over the `*\/*` range
+ */
+export function matchMediaType(declaredMediaTypes: Iterable<string>, contentType: string): string | undefined {
+  const essence = toMediaTypeEssence(contentType);
+  const declared = Array.from(declaredMediaTypes);
+
+  return declared.find((mediaType) => toMediaTypeEssence(mediaType) === essence) ??
+    declared.find((mediaType) => toMediaTypeEssence(mediaType) === `${essence.split("/", 1)[0]}/*`) ??
+    declared.find((mediaType) => toMediaTypeEssence(mediaType) === "*/*");
+}
+
+function formEntriesToObject(
+  entries: Iterable<[string, FormDataEntryValue]>,
+  schema: ZodType | undefined,
+): Record<string, unknown> {
+  const unwrapped = schema !== undefined ? unwrapZodType(schema) : undefined;
+  const shape = unwrapped instanceof ZodObject ? unwrapped.shape as Record<string, ZodType> : {};
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of entries) {
+    const isArray = key in shape && unwrapZodType(shape[key]) instanceof ZodArray;
+
+    if (isArray) {
+      result[key] = [...(result[key] as FormDataEntryValue[] | undefined ?? []), value];
+    } else if (key in result) {
+      result[key] = [...(Array.isArray(result[key]) ? result[key] as FormDataEntryValue[] : [result[key]]), value];
+    } else {
+      result[key] = value;
+    }
+  }
+
+  for (const [key, propSchema] of Object.entries(shape)) {
+    if (!(key in result) && unwrapZodType(propSchema) instanceof ZodArray) {
+      result[key] = [];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parses the request body according to the media type of the request:
+ * JSON is decoded, forms are turned into objects (with repeated keys and array fields as arrays),
+ * text is read as a string and anything else is passed through as a stream
+ */
+export async function parseRequestBody(
+  request: Request,
+  contentType: string,
+  schema: ZodType | undefined,
+): Promise<unknown> {
+  const essence = toMediaTypeEssence(contentType);
+
+  if (isJsonMediaType(essence)) {
+    return await request.json();
+  }
+
+  if (essence === "application/x-www-form-urlencoded") {
+    return formEntriesToObject(new URLSearchParams(await request.text()), schema);
+  }
+
+  if (essence === "multipart/form-data") {
+    return formEntriesToObject(await request.formData(), schema);
+  }
+
+  if (essence.startsWith("text/")) {
+    return await request.text();
+  }
+
+  return request.body;
+}
+
+function toFormValue(value: unknown): string | Blob {
+  if (value instanceof Blob) {
+    return value;
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  return String(value);
+}
+
+function toFormEntries(data: Record<string, unknown>): [string, string | Blob][] {
+  return Object.entries(data).flatMap(([key, value]): [string, string | Blob][] => {
+    if (value === undefined) {
+      return [];
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((v) => [key, toFormValue(v)]);
+    }
+
+    return [[key, toFormValue(value)]];
+  });
+}
+
+/**
+ * Serializes a request body for the given media type. The returned content type is undefined
+ * for multipart forms, since it must carry the boundary generated by fetch.
+ */
+export function serializeRequestBody(mediaType: string, data: unknown): { body: BodyInit; contentType?: string } {
+  const essence = toMediaTypeEssence(mediaType);
+
+  if (isJsonMediaType(essence)) {
+    return { body: JSON.stringify(data), contentType: mediaType };
+  }
+
+  if (essence === "application/x-www-form-urlencoded") {
+    const entries = toFormEntries(data as Record<string, unknown>).map(([key, value]) => [key, String(value)]);
+    return { body: new URLSearchParams(entries), contentType: mediaType };
+  }
+
+  if (essence === "multipart/form-data") {
+    const formData = new FormData();
+
+    for (const [key, value] of toFormEntries(data as Record<string, unknown>)) {
+      formData.append(key, value);
+    }
+
+    return { body: formData };
+  }
+
+  if (essence.startsWith("text/")) {
+    return { body: String(data), contentType: mediaType };
+  }
+
+  return { body: data as BodyInit, contentType: mediaType };
+}
@@ -1,5 +1,6 @@
 import { OpenapiRouteConfig } from "../types/shared.ts";
-import { ZodType } from "../zod.ts";
+import { z, ZodType } from "../zod.ts";
+import { isZodType } from "../lib/zod_type_check.ts";
 
 export type ResponseSchemaMap = Map<
   number,
@@ -53,3 +54,120 @@ export function extractResponseSchemaMap<C extends OpenapiRouteConfig>(config: C
     );
   }
 }
+
+/**
+ * Copies a schema with some of its definition replaced, keeping its checks and metadata
+ */
+function rebuildSchema(schema: ZodType, def: Record<string, unknown>): ZodType {
+  return new (schema.constructor as new (def: unknown) => ZodType)({ ...schema._def, ...def });
+}
+
+/**
+ * Stands for the output of a transform, which no schema describes unless the transform is piped into one
+ */
+const UnvalidatableTransformOutputSchema = z.any().superRefine((_, ctx) => {
+  ctx.addIssue({
+    code: z.ZodIssueCode.custom,
+    message: "The output of a transform can not be validated, pipe the transform into the schema of its output",
+  });
+});
+
+/**
+ * The schema of the values on the output side of a schema, so that validating what a handler returns neither
+ * expects the input of the transforms nor runs them again. The output of a transform is only validated
+ * when it is piped into another schema, and reported as a mismatch otherwise.
+ */
+export function toOutputSchema(schema: ZodType): ZodType {
+  if (!outputSchemaCache.has(schema)) {
+    outputSchemaCache.set(schema, buildOutputSchema(schema));
+  }
+
+  return outputSchemaCache.get(schema)!;
+}
+
+const outputSchemaCache = new WeakMap<ZodType, ZodType>();
+
+function buildOutputSchema(schema: ZodType): ZodType {
+  const isSame = (schemas: ZodType[], outputs: ZodType[]) =>
+    outputs.every((output, index) => output === schemas[index]);
+
+  if (isZodType(schema, "ZodEffects")) {
+    if (schema._def.effect.type === "transform") {
+      return UnvalidatableTransformOutputSchema;
+    }
+
+    const inner = toOutputSchema(schema._def.schema);
+
+    // A preprocess only changes the input, while the refinements of a transformed value are checked by its pipeline
+    return schema._def.effect.type === "refinement" && inner === schema._def.schema ? schema : inner;
+  }
+
+  if (isZodType(schema, "ZodPipeline")) {
+    return toOutputSchema(schema._def.out);
+  }
+
+  if (
+    isZodType(schema, "ZodOptional") || isZodType(schema, "ZodNullable") || isZodType(schema, "ZodDefault") ||
+    isZodType(schema, "ZodCatch") || isZodType(schema, "ZodReadonly")
+  ) {
+    const inner = toOutputSchema(schema._def.innerType);
+    return inner === schema._def.innerType ? schema : rebuildSchema(schema, { innerType: inner });
+  }
+
+  if (isZodType(schema, "ZodBranded")) {
+    return toOutputSchema(schema._def.type);
+  }
+
+  // Deferred like the original, which also lets recursive schemas reach the cached output schema
+  if (isZodType(schema, "ZodLazy")) {
+    return rebuildSchema(schema, { getter: () => toOutputSchema(schema.schema) });
+  }
+
+  if (isZodType(schema, "ZodArray")) {
+    const element = toOutputSchema(schema._def.type);
+    return element === schema._def.type ? schema : rebuildSchema(schema, { type: element });
+  }
+
+  if (isZodType(schema, "ZodSet")) {
+    const value = toOutputSchema(schema._def.valueType);
+    return value === schema._def.valueType ? schema : rebuildSchema(schema, { valueType: value });
+  }
+
+  if (isZodType(schema, "ZodRecord") || isZodType(schema, "ZodMap")) {
+    const schemas: ZodType[] = [schema._def.keyType, schema._def.valueType];
+    const [keyType, valueType] = schemas.map(toOutputSchema);
+    return isSame(schemas, [keyType, valueType]) ? schema : rebuildSchema(schema, { keyType, valueType });
+  }
+
+  if (isZodType(schema, "ZodObject")) {
+    const shape: Record<string, ZodType> = schema.shape;
+    const outputShape = Object.fromEntries(
+      Object.entries(shape).map(([key, property]) => [key, toOutputSchema(property)]),
+    );
+
+    return Object.entries(outputShape).every(([key, output]) => output === shape[key])
+      ? schema
+      : rebuildSchema(schema, { shape: () => outputShape });
+  }
+
+  if (isZodType(schema, "ZodTuple")) {
+    const schemas: ZodType[] = schema._def.items;
+    const items = schemas.map(toOutputSchema);
+    const rest = schema._def.rest !== null ? toOutputSchema(schema._def.rest) : null;
+    return isSame(schemas, items) && rest === schema._def.rest ? schema : rebuildSchema(schema, { items, rest });
+  }
+
+  if (isZodType(schema, "ZodUnion") || isZodType(schema, "ZodDiscriminatedUnion")) {
+    const schemas: ZodType[] = Array.from(schema.options);
+    const options = schemas.map(toOutputSchema);
+    return isSame(schemas, options) ? schema : z.union(options as [ZodType, ZodType, ...ZodType[]]);
+  }
+
+  if (isZodType(schema, "ZodIntersection")) {
+    const schemas: ZodType[] = [schema._def.left, schema._def.right];
+    const [left, right] = schemas.map(toOutputSchema);
+    return isSame(schemas, [left, right]) ? schema : rebuildSchema(schema, { left, right });
+  }
+
+  return schema;
+}
@@ -0,0 +1,119 @@
+import type { OpenapiAnySecurityCredentials, OpenapiSecuritySchemeObject } from "../openapi_security.ts";
+import { parseCookieHeader, renderCookieHeader } from "./cookies.ts";
+
+function extractAuthorization(request: Request, expectedScheme: string): string | undefined {
+  const authorization = request.headers.get("authorization");
+
+  if (authorization === null) {
+    return;
+  }
+
+  const separatorIndex = authorization.indexOf(" ");
+
+  if (separatorIndex === -1 || authorization.slice(0, separatorIndex).toLowerCase() !== expectedScheme.toLowerCase()) {
+    return;
+  }
+
+  const value = authorization.slice(separatorIndex + 1).trim();
+
+  return value.length > 0 ? value : undefined;
+}
+
+function decodeBase64(value: string): string {
+  return new TextDecoder().decode(Uint8Array.from(atob(value), (c) => c.charCodeAt(0)));
+}
+
+function encodeBase64(value: string): string {
+  return btoa(String.fromCharCode(...new TextEncoder().encode(value)));
+}
+
+export function extractSecurityCredentials(
+  scheme: OpenapiSecuritySchemeObject,
+  request: Request,
+  url: URL,
+): OpenapiAnySecurityCredentials | undefined {
+  switch (scheme.type) {
+    case "http": {
+      const value = extractAuthorization(request, scheme.scheme);
+
+      if (value === undefined) {
+        return;
+      }
+
+      if (scheme.scheme.toLowerCase() === "basic") {
+        try {
+          const decoded = decodeBase64(value);
+          const separatorIndex = decoded.indexOf(":");
+
+          if (separatorIndex === -1) {
+            return;
+          }
+
+          return { username: decoded.slice(0, separatorIndex), password: decoded.slice(separatorIndex + 1) };
+        } catch {
+          return;
+        }
+      }
+
+      return { token: value };
+    }
+
+    case "apiKey": {
+      let key: string | null | undefined;
+
+      if (scheme.in === "header") {
+        key = request.headers.get(scheme.name);
+      } else if (scheme.in === "query") {
+        key = url.searchParams.get(scheme.name);
+      } else {
+        key = parseCookieHeader(request.headers.get("cookie"))[scheme.name];
+      }
+
+      return key !== null && key !== undefined ? { key } : undefined;
+    }
+
+    case "oauth2":
+    case "openIdConnect": {
+      const token = extractAuthorization(request, "bearer");
+      return token !== undefined ? { token } : undefined;
+    }
+  }
+}
+
+export function applySecurityCredentials(
+  scheme: OpenapiSecuritySchemeObject,
+  // deno-lint-ignore no-explicit-any
+  credentials: any,
+  { headers, searchParams }: { headers: Headers; searchParams: URLSearchParams },
+): void {
+  switch (scheme.type) {
+    case "http": {
+      if (scheme.scheme.toLowerCase() === "basic") {
+        headers.set("authorization", `Basic ${encodeBase64(`${credentials.username}:${credentials.password}`)}`);
+      } else {
+        const authScheme = scheme.scheme.toLowerCase() === "bearer" ? "Bearer" : scheme.scheme;
+        headers.set("authorization", `${authScheme} ${credentials.token}`);
+      }
+      return;
+    }
+
+    case "apiKey": {
+      if (scheme.in === "header") {
+        headers.set(scheme.name, credentials.key);
+      } else if (scheme.in === "query") {
+        searchParams.set(scheme.name, credentials.key);
+      } else {
+        const cookies = parseCookieHeader(headers.get("cookie"));
+        cookies[scheme.name] = credentials.key;
+        headers.set("cookie", renderCookieHeader(cookies));
+      }
+      return;
+    }
+
+    case "oauth2":
+    case "openIdConnect": {
+      headers.set("authorization", `Bearer ${credentials.token}`);
+      return;
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { z, ZodType } from "../zod.ts";
-import { MakeUndefinedKeysOptional, OpenapiRouteConfig } from "./shared.ts";
+import { IsUnion, MakeUndefinedKeysOptional, OpenapiRouteConfig } from "./shared.ts";
 
 type FromZodRecord<T> = {
   [M in Extract<keyof T, string>]: T[M] extends ZodType ? z.infer<T[M]> : never;
@@ -26,19 +26,46 @@ export type ExtractRequestHeadersType<C extends OpenapiRouteConfig> = C extends
 } ? MakeUndefinedKeysOptional<FromZodRecord<H>>
   : never;
 
+export type ExtractRequestCookiesType<C extends OpenapiRouteConfig> = C extends {
+  request: {
+    cookies: infer K;
+  };
+} ? MakeUndefinedKeysOptional<FromZodRecord<K>>
+  : never;
+
+type FromRequestContent<T> = {
+  [M in Extract<keyof T, string>]: T[M] extends {
+    schema: infer Z;
+  } ? (Z extends ZodType ? z.infer<Z> : BodyInit | null)
+    : never;
+};
+
+type ToMediaTypeUnion<T> = {
+  [M in keyof T]: {
+    mediaType: M;
+    data: T[M];
+  };
+}[keyof T];
+
+/**
+ * The body of an endpoint accepting a single media type is its data as is,
+ * otherwise it is a union discriminated by the `mediaType` of the request
+ */
 export type ExtractRequestBodyType<C extends OpenapiRouteConfig> = C extends {
   request: {
     body: {
-      content: {
-        "application/json": {
-          schema: infer B;
-        };
-      };
+      content: infer T;
     };
   };
-} ? B extends ZodType ? z.infer<B> : undefined
+} ? (IsUnion<Extract<keyof T, string>> extends true ? ToMediaTypeUnion<FromRequestContent<T>>
+    : FromRequestContent<T>[Extract<keyof T, string>])
   : undefined;
 
+export type ExtractSecurityRequirementType<C extends OpenapiRouteConfig> = C extends {
+  security: readonly (infer SR)[];
+} ? SR
+  : unknown;
+
 // const config = {
 //   method: "get" as const,
 //   path: "/foo",
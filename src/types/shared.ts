@@ -15,7 +15,7 @@ export interface TypedResponse<S extends number, M extends string, D, H> {
 export type Coalesce<T, D> = [T] extends [never] ? D : T;
 
 export type OpenapiRouteConfig<P extends string = string> =
-  & Pick<ZodRouteConfig, "method" | "summary" | "tags" | "description" | "request">
+  & Pick<ZodRouteConfig, "method" | "summary" | "tags" | "description" | "security" | "request">
   & {
     path: P;
     responses?: ZodRouteConfig["responses"] | undefined;
@@ -36,6 +36,8 @@ export type GenericHeaders = HeadersInit;
 
 export type MaybeRecord = Record<string, unknown> | undefined;
 
+export type IsUnion<T, U = T> = T extends unknown ? ([U] extends [T] ? false : true) : never;
+
 type ExtractUndefinedKeys<T> = {
   [K in keyof T]: undefined extends T[K] ? K : never;
 }[keyof T];
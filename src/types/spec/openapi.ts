@@ -35,6 +35,8 @@ export interface OpenapiObject extends ISpecificationExtension {
   tags?: TagObject[];
   externalDocs?: ExternalDocumentationObject;
   webhooks?: PathsObject;
+  /** @desc OpenAPI 3.1 only */
+  jsonSchemaDialect?: string;
 }
 export interface InfoObject extends ISpecificationExtension {
   title: string;
@@ -332,6 +334,13 @@ export interface SchemaObject extends ISpecificationExtension {
   minProperties?: number;
   required?: string[];
   enum?: any[];
+
+  /** @desc OpenAPI 3.1 only */
+  $schema?: string;
+  /** @desc OpenAPI 3.1 only */
+  const?: any;
+  /** @desc OpenAPI 3.1 only */
+  prefixItems?: (SchemaObject | ReferenceObject)[];
 }
 
 /**
@@ -26,6 +26,14 @@ export interface ZodOpenapiMetadata<T = any> extends SchemaObject {
   extendedFrom?: string;
   param?: Partial<ParameterObject> & { example?: T };
   example?: T;
+  /**
+   * Keywords completing the schema generated for requests, e.g. the wire format of a preprocessed value
+   */
+  input?: SchemaObject;
+  /**
+   * Keywords completing the schema generated for responses, e.g. the type of the output of a transform
+   */
+  output?: SchemaObject;
 }
 
 export function extendZodWithOpenApi(zod: typeof z) {